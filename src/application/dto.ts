@@ -3,13 +3,173 @@
  */
 
 export interface CrawlerConfigDTO {
-  targetUrl: string;
   timeoutSeconds: number;
   maxRetries: number;
   userAgents: string[];
+}
+
+export type StorageBackend = 'json' | 'sqlite';
+
+export interface StorageConfigDTO {
+  backend: StorageBackend;
   cacheDir: string;
 }
 
+export type SourceType = 'html' | 'feed' | 'json';
+
+export interface SourceConfigDTO {
+  id: string;
+  name: string;
+  type: SourceType;
+  url: string;
+  timeoutSeconds: number;
+  maxRetries: number;
+  userAgents: string[];
+  extraction: ExtractionRulesDTO;
+  pagination?: PaginationConfigDTO;
+  api?: JsonApiConfigDTO;
+  detail?: DetailFetchConfigDTO;
+  // Cron expression; sources without one follow the scheduler rules
+  schedule?: string;
+  // Override global filter rules with the same name, or add rules
+  filters?: FilterRuleDTO[];
+  // Regex applied to the normalised link, the first capture group (or the
+  // whole match) identifies an item across edits
+  identityPattern?: string;
+}
+
+export type FilterAction = 'include' | 'exclude';
+
+/**
+ * Include rules suppress items that do not match, exclude rules suppress
+ * items that do. Every criterion a rule sets has to match.
+ */
+export interface FilterRuleDTO {
+  name: string;
+  action: FilterAction;
+  // Keywords, or regular expressions written as /pattern/flags
+  patterns?: string[];
+  // Limits the rule to these sources
+  sources?: string[];
+  // Matches items whose date is older than this
+  olderThanDays?: number;
+  enabled: boolean;
+}
+
+export type ItemPriority = 'low' | 'normal' | 'high';
+
+/**
+ * Tags items matching any pattern with a category, a priority or both
+ */
+export interface ClassificationRuleDTO {
+  name: string;
+  category?: string;
+  priority?: ItemPriority;
+  // Keywords, or regular expressions written as /pattern/flags
+  patterns: string[];
+  // Limits the rule to these sources
+  sources?: string[];
+}
+
+export interface ClassificationConfigDTO {
+  // Priority of items no rule assigns one to
+  defaultPriority: ItemPriority;
+  rules: ClassificationRuleDTO[];
+}
+
+/**
+ * Optional download of article pages for new items
+ */
+export interface DetailFetchConfigDTO {
+  // Selector of the article body, a readability-style heuristic when omitted
+  contentSelector?: string;
+  // Number of article pages fetched at the same time
+  concurrency: number;
+  // Pause after each article page, per concurrent worker
+  delayMs: number;
+  // Longest article text kept, in characters
+  maxContentLength: number;
+  // Fetch the articles of known items again on every crawl, so edits to
+  // the article text alone are noticed
+  trackEdits: boolean;
+}
+
+/**
+ * How to reach further list pages of an HTML source
+ */
+export interface PaginationConfigDTO {
+  // Selector of the "next page" link
+  nextSelector?: string;
+  // Page URL with a {page} placeholder, e.g. "https://example.gov/list?page={page}"
+  urlTemplate?: string;
+  // Page number of the configured url, the template continues from the next number
+  firstPage: number;
+  // Maximum number of pages fetched per crawl, including the first
+  maxPages: number;
+}
+
+/**
+ * How to pull news items out of a list page
+ */
+export interface ExtractionRulesDTO {
+  // Candidate list-item selectors, the first one matching anything is used
+  itemSelectors: string[];
+  title: FieldRuleDTO;
+  link: FieldRuleDTO;
+  date?: FieldRuleDTO;
+  summary?: FieldRuleDTO;
+  minTitleLength: number;
+}
+
+/**
+ * How to map a JSON API response to news items
+ */
+export interface JsonApiConfigDTO {
+  // Dot path to the item array, e.g. "data.items" or "result[0].list"
+  itemsPath: string;
+  // Dot paths relative to each item
+  fields: JsonFieldMappingDTO;
+  // Builds the link from item fields, e.g. "https://example.gov/news/{id}"
+  linkTemplate?: string;
+  pagination?: JsonPaginationDTO;
+}
+
+export interface JsonFieldMappingDTO {
+  // Stable item id, identifies an item across edits instead of its link
+  id?: string;
+  title: string;
+  link?: string;
+  date?: string;
+  summary?: string;
+}
+
+export interface JsonPaginationDTO {
+  // "page" counts pages from start, "offset" counts items from start
+  type: 'page' | 'offset';
+  param: string;
+  start: number;
+  pageSize: number;
+  // Query parameter carrying pageSize, if the API takes one
+  sizeParam?: string;
+  maxPages: number;
+}
+
+/**
+ * How to read a single field relative to a list item
+ */
+export interface FieldRuleDTO {
+  // Sub-selector inside the list item, the item itself when omitted
+  selector?: string;
+  // Attribute to read, the element text when omitted
+  attribute?: string;
+  // Regex applied to the value, keeps the first capture group (or whole match)
+  pattern?: string;
+  // Rewrites the value with pattern instead of extracting, e.g. "$3-$2-$1"
+  replacement?: string;
+  // Also look for the selector in up to this many ancestors of the item
+  searchAncestors?: number;
+}
+
 export interface DeploymentNotificationConfigDTO {
   enabled: boolean;
   devEmail: string;
@@ -26,30 +186,239 @@ export interface NotificationConfigDTO {
   deploymentNotification?: DeploymentNotificationConfigDTO;
 }
 
+/**
+ * Chat apps posted to through an incoming webhook URL (Slack, Teams, Discord)
+ */
+export interface ChatWebhookConfigDTO {
+  enabled: boolean;
+  webhookUrl: string;
+}
+
+export interface WebhookConfigDTO {
+  enabled: boolean;
+  urls: string[];
+  headers: Record<string, string>;
+  // Shared secret for the HMAC-SHA256 signature header, unsigned when omitted
+  secret?: string;
+  timeoutSeconds: number;
+  maxRetries: number;
+}
+
+export interface TelegramConfigDTO {
+  enabled: boolean;
+  botToken: string;
+  chatIds: string[];
+}
+
+/**
+ * Chat and webhook channels, alongside the email notification
+ */
+export interface ChannelsConfigDTO {
+  slack?: ChatWebhookConfigDTO;
+  teams?: ChatWebhookConfigDTO;
+  discord?: ChatWebhookConfigDTO;
+  webhook?: WebhookConfigDTO;
+  telegram?: TelegramConfigDTO;
+}
+
+export interface UrgentRuleDTO {
+  // Keyword, or regular expression written as /pattern/flags, matched
+  // against item titles
+  titlePattern?: string;
+  sources?: string[];
+  // Items at or above this priority
+  minPriority?: ItemPriority;
+}
+
+export interface DigestConfigDTO {
+  channel: string;
+  // Cron expression for flushing the queued items
+  schedule: string;
+  // Items matching this bypass the digest and are sent right away
+  urgent?: UrgentRuleDTO;
+  // Batch only these recipients, each in a queue of their own, and send
+  // the channel's other recipients items right away
+  recipients?: string[];
+}
+
+export interface QuietHoursRuleDTO {
+  name: string;
+  timeRange: string;
+  days: Weekday[];
+  // YYYY-MM-DD for one date, or MM-DD for every year
+  holidays: string[];
+  // Every channel or recipient when unset
+  channels?: string[];
+  recipients?: string[];
+}
+
+export interface QuietHoursConfigDTO {
+  // Deliver everything held for a recipient as one message
+  merge: boolean;
+  rules: QuietHoursRuleDTO[];
+}
+
+export interface SubscriptionDTO {
+  name: string;
+  channel: string;
+  // Every recipient of the channel when unset
+  recipients?: string[];
+  sources?: string[];
+  // Keywords, or regular expressions written as /pattern/flags
+  include: string[];
+  exclude: string[];
+}
+
+/**
+ * Limits a channel to items at or above a priority
+ */
+export interface PriorityRouteDTO {
+  channel: string;
+  minPriority: ItemPriority;
+}
+
+export interface OutboxConfigDTO {
+  // Attempts before a delivery is dead-lettered
+  maxAttempts: number;
+  // Wait before the first retry, doubled after every further failure
+  baseDelaySeconds: number;
+}
+
+export interface TemplatesConfigDTO {
+  // Directory with template overrides, bundled defaults fill in the rest
+  dir: string;
+}
+
+export type Weekday =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
+
+export interface ScheduleRuleDTO {
+  name: string;
+  timeRange: string;
+  intervalMinutes: number;
+  days: Weekday[];
+}
+
 export interface ScheduleConfigDTO {
   enabled: boolean;
   intervalHours: number;
   startImmediately: boolean;
+  rules: ScheduleRuleDTO[];
 }
 
 export interface ServerConfigDTO {
   healthCheckPort: number;
   healthCheckHost: string;
   pidFile: string;
+  // Bearer token for GET /deliveries, which is not served without one
+  deliveriesToken?: string;
 }
 
 export interface AppConfigDTO {
   timezone: string;
   crawler: CrawlerConfigDTO;
+  sources: SourceConfigDTO[];
+  storage: StorageConfigDTO;
   notification: NotificationConfigDTO;
+  channels: ChannelsConfigDTO;
+  digests: DigestConfigDTO[];
+  quietHours: QuietHoursConfigDTO;
+  subscriptions: SubscriptionDTO[];
+  outbox: OutboxConfigDTO;
+  filters: FilterRuleDTO[];
+  classification: ClassificationConfigDTO;
+  priorityRoutes: PriorityRouteDTO[];
+  templates: TemplatesConfigDTO;
   schedule: ScheduleConfigDTO;
   server: ServerConfigDTO;
 }
 
+/**
+ * Delivery log filters as given on the command line or in a query string
+ */
+export interface DeliveryLogFilterDTO {
+  item?: string;
+  channel?: string;
+  recipient?: string;
+  status?: string;
+  // ISO dates or timestamps, a plain date for until covers that whole day
+  since?: string;
+  until?: string;
+  limit?: string;
+}
+
 export interface HealthCheckDTO {
   status: string;
   timestamp: Date;
   service: string;
   version?: string;
   uptime?: number;
+  nextRunAt?: Date;
+}
+
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+export type WebhookEvent = 'news.new_items' | 'news.items_updated' | 'ping';
+
+/**
+ * JSON body POSTed by the webhook channel. Dates are ISO 8601 strings.
+ *
+ * When a secret is configured, the `X-News-Monitor-Signature` header holds
+ * `sha256=<hex HMAC-SHA256 of the raw body>`.
+ */
+export interface WebhookPayloadDTO {
+  version: typeof WEBHOOK_PAYLOAD_VERSION;
+  event: WebhookEvent;
+  sentAt: string;
+  title: string;
+  message: string;
+  isDevNotification: boolean;
+  items: WebhookItemDTO[];
+  // Summary of the crawl that found the items
+  run?: WebhookRunDTO;
+}
+
+export interface WebhookItemDTO {
+  id: string;
+  sourceId: string;
+  title: string;
+  link: string;
+  date?: string;
+  contentPreview: string;
+  content?: string;
+  crawledAt: string;
+  firstSeenAt: string;
+  lastSeenAt: string;
+  categories: string[];
+  priority?: ItemPriority;
+  // Set on news.items_updated, what changed since the previous version
+  changes?: WebhookItemChangesDTO;
+}
+
+export interface WebhookItemChangesDTO {
+  revision: number;
+  title?: { before: string; after: string };
+  date?: { before?: string; after: string };
+  // Changed lines of the article text, or of the summary
+  body?: Array<{ type: 'added' | 'removed'; text: string }>;
+}
+
+export interface WebhookRunDTO {
+  success: boolean;
+  timestamp: string;
+  executionTime: number;
+  isFirstRun: boolean;
+  errors: string[];
+  sources: Array<{
+    sourceId: string;
+    success: boolean;
+    itemCount: number;
+    newItemCount: number;
+  }>;
 }
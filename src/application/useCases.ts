@@ -1,16 +1,31 @@
 /**
  * Application use cases - Orchestrate domain services
  */
-import { CrawlResult } from '../domain/entities'
-import { NewsRepository, RepositoryStats } from '../domain/repositories'
+import { CrawlResult, NewsItem, NotificationResult } from '../domain/entities'
+import { DeliveryLogFilterDTO } from './dto'
+import {
+	DeliveryLogEntry,
+	DeliveryLogQuery,
+	DeliveryLogRepository,
+	DeliveryStatus,
+	ItemRevision,
+	NewsRepository,
+	OutboxEntry,
+	OutboxRepository,
+	RepositoryStats,
+} from '../domain/repositories'
 import {
 	CrawlerService,
-	NotificationService,
+	DigestNotificationService,
+	LocalCalendar,
+	NotificationDispatcher,
+	OutboxNotificationService,
+	QuietHoursNotificationService,
 	NewsMonitoringService,
 } from '../domain/services'
 
 export interface MonitorNewsUseCase {
-	execute(): Promise<CrawlResult>
+	execute(sourceIds?: string[]): Promise<CrawlResult>
 }
 
 export interface TestConnectionUseCase {
@@ -25,11 +40,65 @@ export interface CleanupCacheUseCase {
 	execute(maxAgeDays?: number): Promise<number>
 }
 
+export interface ImportCacheUseCase {
+	execute(): Promise<number>
+}
+
+export interface FlushDigestsUseCase {
+	execute(channels?: string[]): Promise<NotificationResult[]>
+}
+
+export interface ReleaseHeldNotificationsUseCase {
+	execute(): Promise<NotificationResult[]>
+}
+
+export interface RetryOutboxUseCase {
+	execute(): Promise<NotificationResult[]>
+}
+
+export interface GetOutboxUseCase {
+	execute(): Promise<OutboxSummary>
+}
+
+export interface OutboxSummary {
+	pending: OutboxEntry[]
+	dead: OutboxEntry[]
+}
+
+export interface QueryDeliveryLogUseCase {
+	execute(filter: DeliveryLogFilterDTO): Promise<DeliveryLogEntry[]>
+}
+
+export interface GetItemRevisionsUseCase {
+	execute(itemId: string): Promise<ItemHistory>
+}
+
+export interface ItemHistory {
+	// Current version, unset when the item is no longer cached
+	item?: NewsItem
+	// Earlier versions, oldest first
+	revisions: ItemRevision[]
+}
+
 export interface ConnectionTestResult {
 	crawler: boolean
 	notification: boolean
 	crawlerError?: string
 	notificationError?: string
+	sources: SourceConnectionTestResult[]
+	channels: ChannelConnectionTestResult[]
+}
+
+export interface SourceConnectionTestResult {
+	sourceId: string
+	success: boolean
+	error?: string
+}
+
+export interface ChannelConnectionTestResult {
+	channel: string
+	success: boolean
+	error?: string
 }
 
 export class MonitorNewsUseCaseImpl implements MonitorNewsUseCase {
@@ -39,45 +108,79 @@ export class MonitorNewsUseCaseImpl implements MonitorNewsUseCase {
 		this.monitoringService = monitoringService
 	}
 
-	public async execute(): Promise<CrawlResult> {
-		return await this.monitoringService.monitorNews()
+	public async execute(sourceIds?: string[]): Promise<CrawlResult> {
+		return await this.monitoringService.monitorNews(sourceIds)
 	}
 }
 
 export class TestConnectionUseCaseImpl implements TestConnectionUseCase {
-	private readonly crawlerService: CrawlerService
-	private readonly notificationService: NotificationService
+	private readonly crawlerServices: CrawlerService[]
+	private readonly notificationDispatcher: NotificationDispatcher
 
 	constructor(
-		crawlerService: CrawlerService,
-		notificationService: NotificationService
+		crawlerServices: CrawlerService[],
+		notificationDispatcher: NotificationDispatcher
 	) {
-		this.crawlerService = crawlerService
-		this.notificationService = notificationService
+		this.crawlerServices = crawlerServices
+		this.notificationDispatcher = notificationDispatcher
 	}
 
 	public async execute(): Promise<ConnectionTestResult> {
 		const results: ConnectionTestResult = {
 			crawler: false,
 			notification: false,
+			sources: [],
+			channels: [],
 		}
 
-		// Test crawler connection
-		try {
-			results.crawler = await this.crawlerService.testConnection()
-		} catch (error) {
-			results.crawler = false
-			results.crawlerError =
-				error instanceof Error ? error.message : String(error)
+		// Test crawler connection for every source
+		for (const crawlerService of this.crawlerServices) {
+			const sourceResult: SourceConnectionTestResult = {
+				sourceId: crawlerService.sourceId,
+				success: false,
+			}
+			try {
+				sourceResult.success = await crawlerService.testConnection()
+			} catch (error) {
+				sourceResult.error =
+					error instanceof Error ? error.message : String(error)
+			}
+			results.sources.push(sourceResult)
 		}
 
-		// Test notification connection
-		try {
-			results.notification = await this.notificationService.testConnection()
-		} catch (error) {
-			results.notification = false
-			results.notificationError =
-				error instanceof Error ? error.message : String(error)
+		results.crawler = results.sources.every((source) => source.success)
+		const failedSources = results.sources.filter((source) => !source.success)
+		if (failedSources.length > 0) {
+			results.crawlerError = `Failed sources: ${failedSources
+				.map((source) => source.sourceId)
+				.join(', ')}`
+		}
+
+		// Test every notification channel in parallel
+		results.channels = await Promise.all(
+			this.notificationDispatcher.channels.map(async (notificationService) => {
+				const channelResult: ChannelConnectionTestResult = {
+					channel: notificationService.channel,
+					success: false,
+				}
+				try {
+					channelResult.success = await notificationService.testConnection()
+				} catch (error) {
+					channelResult.error =
+						error instanceof Error ? error.message : String(error)
+				}
+				return channelResult
+			})
+		)
+
+		results.notification = results.channels.every((channel) => channel.success)
+		const failedChannels = results.channels.filter(
+			(channel) => !channel.success
+		)
+		if (failedChannels.length > 0) {
+			results.notificationError = `Failed channels: ${failedChannels
+				.map((channel) => channel.channel)
+				.join(', ')}`
 		}
 
 		return results
@@ -107,3 +210,255 @@ export class CleanupCacheUseCaseImpl implements CleanupCacheUseCase {
 		return await this.newsRepository.cleanupOldEntries(maxAgeDays)
 	}
 }
+
+export class ImportCacheUseCaseImpl implements ImportCacheUseCase {
+	private readonly sourceRepository: NewsRepository
+	private readonly targetRepository: NewsRepository
+
+	constructor(
+		sourceRepository: NewsRepository,
+		targetRepository: NewsRepository
+	) {
+		this.sourceRepository = sourceRepository
+		this.targetRepository = targetRepository
+	}
+
+	public async execute(): Promise<number> {
+		const items = Array.from((await this.sourceRepository.findAll()).values())
+		if (items.length === 0) {
+			return 0
+		}
+
+		const saved = await this.targetRepository.save(items)
+		if (!saved) {
+			throw new Error('Failed to save imported items')
+		}
+		await this.targetRepository.addRevisions(
+			await this.sourceRepository.findRevisions()
+		)
+		return items.length
+	}
+}
+
+export class FlushDigestsUseCaseImpl implements FlushDigestsUseCase {
+	private readonly digestServices: DigestNotificationService[]
+
+	constructor(digestServices: DigestNotificationService[]) {
+		this.digestServices = digestServices
+	}
+
+	/**
+	 * Flush the given channels, or every digest channel, skipping empty queues
+	 */
+	public async execute(channels?: string[]): Promise<NotificationResult[]> {
+		const digestServices = channels
+			? this.digestServices.filter((service) =>
+					channels.includes(service.channel)
+			  )
+			: this.digestServices
+
+		const results: NotificationResult[] = []
+		for (const digestService of digestServices) {
+			try {
+				const result = await digestService.flush()
+				if (result) {
+					results.push(result)
+				}
+			} catch (error) {
+				const errorMessage =
+					error instanceof Error ? error.message : String(error)
+				results.push(
+					new NotificationResult(
+						false,
+						digestService.channel,
+						'Digest flush failed',
+						new Date(),
+						errorMessage
+					)
+				)
+			}
+		}
+		return results
+	}
+}
+
+export class ReleaseHeldNotificationsUseCaseImpl
+	implements ReleaseHeldNotificationsUseCase
+{
+	private readonly quietHoursServices: QuietHoursNotificationService[]
+
+	constructor(quietHoursServices: QuietHoursNotificationService[]) {
+		this.quietHoursServices = quietHoursServices
+	}
+
+	/**
+	 * Deliver what every channel held back, once its quiet hours are over
+	 */
+	public async execute(): Promise<NotificationResult[]> {
+		const results: NotificationResult[] = []
+		for (const quietHoursService of this.quietHoursServices) {
+			try {
+				results.push(...(await quietHoursService.releaseDue()))
+			} catch (error) {
+				const errorMessage =
+					error instanceof Error ? error.message : String(error)
+				results.push(
+					new NotificationResult(
+						false,
+						quietHoursService.channel,
+						'Releasing held notifications failed',
+						new Date(),
+						errorMessage
+					)
+				)
+			}
+		}
+		return results
+	}
+}
+
+export class RetryOutboxUseCaseImpl implements RetryOutboxUseCase {
+	private readonly outboxServices: OutboxNotificationService[]
+
+	constructor(outboxServices: OutboxNotificationService[]) {
+		this.outboxServices = outboxServices
+	}
+
+	/**
+	 * Retry every pending delivery whose backoff has passed
+	 */
+	public async execute(): Promise<NotificationResult[]> {
+		const results: NotificationResult[] = []
+		for (const outboxService of this.outboxServices) {
+			try {
+				results.push(...(await outboxService.retryDue()))
+			} catch (error) {
+				const errorMessage =
+					error instanceof Error ? error.message : String(error)
+				results.push(
+					new NotificationResult(
+						false,
+						outboxService.channel,
+						'Retrying outbox deliveries failed',
+						new Date(),
+						errorMessage
+					)
+				)
+			}
+		}
+		return results
+	}
+}
+
+export class GetOutboxUseCaseImpl implements GetOutboxUseCase {
+	private readonly outboxRepository: OutboxRepository
+
+	constructor(outboxRepository: OutboxRepository) {
+		this.outboxRepository = outboxRepository
+	}
+
+	public async execute(): Promise<OutboxSummary> {
+		const entries = await this.outboxRepository.findAll()
+		return {
+			pending: entries.filter((entry) => entry.status === 'pending'),
+			dead: entries.filter((entry) => entry.status === 'dead'),
+		}
+	}
+}
+
+export class GetItemRevisionsUseCaseImpl implements GetItemRevisionsUseCase {
+	private readonly newsRepository: NewsRepository
+
+	constructor(newsRepository: NewsRepository) {
+		this.newsRepository = newsRepository
+	}
+
+	public async execute(itemId: string): Promise<ItemHistory> {
+		const history: ItemHistory = {
+			revisions: await this.newsRepository.findRevisions(itemId),
+		}
+		const item = (await this.newsRepository.findAll()).get(itemId)
+		if (item) {
+			history.item = item
+		}
+		return history
+	}
+}
+
+// Entries returned when a query sets no limit
+const DEFAULT_DELIVERY_LOG_LIMIT = 100
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ['delivered', 'failed', 'dead']
+
+export class QueryDeliveryLogUseCaseImpl implements QueryDeliveryLogUseCase {
+	private readonly deliveryLogRepository: DeliveryLogRepository
+	private readonly calendar: LocalCalendar
+
+	constructor(
+		deliveryLogRepository: DeliveryLogRepository,
+		calendar: LocalCalendar
+	) {
+		this.deliveryLogRepository = deliveryLogRepository
+		this.calendar = calendar
+	}
+
+	public async execute(
+		filter: DeliveryLogFilterDTO
+	): Promise<DeliveryLogEntry[]> {
+		return await this.deliveryLogRepository.find(this.createQuery(filter))
+	}
+
+	private createQuery(filter: DeliveryLogFilterDTO): DeliveryLogQuery {
+		const query: DeliveryLogQuery = { limit: DEFAULT_DELIVERY_LOG_LIMIT }
+		if (filter.item) query.itemId = filter.item
+		if (filter.channel) query.channel = filter.channel
+		if (filter.recipient) query.recipient = filter.recipient
+
+		if (filter.status) {
+			if (!DELIVERY_STATUSES.includes(filter.status as DeliveryStatus)) {
+				throw new Error(
+					`Invalid status: ${
+						filter.status
+					}. Available statuses: ${DELIVERY_STATUSES.join(', ')}`
+				)
+			}
+			query.status = filter.status as DeliveryStatus
+		}
+		if (filter.since) {
+			query.since = this.parseDate(filter.since, 'since')
+		}
+		if (filter.until) {
+			query.until = this.parseDate(filter.until, 'until', true)
+		}
+		if (filter.limit) {
+			const limit = parseInt(filter.limit, 10)
+			if (isNaN(limit) || limit < 1) {
+				throw new Error('limit must be a positive number')
+			}
+			query.limit = limit
+		}
+		return query
+	}
+
+	/**
+	 * Plain dates are days in the configured timezone, and an end date
+	 * includes the whole day
+	 */
+	private parseDate(value: string, name: string, isEnd = false): Date {
+		const date = new Date(value)
+		if (isNaN(date.getTime())) {
+			throw new Error(`Invalid date for ${name}: ${value}`)
+		}
+		if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+			return date
+		}
+		if (!isEnd) {
+			return this.calendar.getStartOfDay(value)
+		}
+		const nextDay = new Date(date.getTime() + 24 * 60 * 60 * 1000)
+		const endOfDay = this.calendar.getStartOfDay(
+			nextDay.toISOString().slice(0, 10)
+		)
+		return new Date(endOfDay.getTime() - 1)
+	}
+}
@@ -3,6 +3,66 @@
  */
 import { createHash } from 'crypto'
 
+/**
+ * Source ID assigned to items cached before multi-source support
+ */
+export const DEFAULT_SOURCE_ID = 'default'
+
+export type ItemPriority = 'low' | 'normal' | 'high'
+
+/**
+ * Priorities from lowest to highest
+ */
+export const ITEM_PRIORITIES: ItemPriority[] = ['low', 'normal', 'high']
+
+// Query parameters that only track where a visitor came from
+const TRACKING_PARAM_PATTERN = /^(utm_.+|fbclid|gclid)$/i
+
+/**
+ * Normalise a link for identifying an item: drops the fragment and tracking
+ * parameters, sorts the query and removes a trailing slash. Links that are
+ * not URLs are only trimmed.
+ */
+export function normalizeLink(link: string): string {
+	let url: URL
+	try {
+		url = new URL(link.trim())
+	} catch {
+		return link.trim()
+	}
+
+	url.hash = ''
+	for (const key of Array.from(url.searchParams.keys())) {
+		if (TRACKING_PARAM_PATTERN.test(key)) {
+			url.searchParams.delete(key)
+		}
+	}
+	url.searchParams.sort()
+	if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+		url.pathname = url.pathname.slice(0, -1)
+	}
+	return url.href
+}
+
+/**
+ * One changed line of an article body
+ */
+export interface DiffLine {
+	type: 'added' | 'removed'
+	text: string
+}
+
+/**
+ * What changed in an item since the previous version
+ */
+export interface ItemChanges {
+	// Revision of the current version, the first version is 1
+	revision: number
+	title?: { before: string; after: string }
+	date?: { before?: string; after: string }
+	body?: DiffLine[]
+}
+
 export interface NewsItemData {
 	id: string
 	title: string
@@ -10,6 +70,15 @@ export interface NewsItemData {
 	date?: string | undefined
 	contentPreview: string
 	crawledAt: Date
+	sourceId: string
+	content?: string | undefined
+	firstSeenAt?: Date | undefined
+	lastSeenAt?: Date | undefined
+	suppressedBy?: string | undefined
+	categories?: string[] | undefined
+	priority?: ItemPriority | undefined
+	fingerprint?: string | undefined
+	changes?: ItemChanges | undefined
 }
 
 export class NewsItem {
@@ -19,6 +88,19 @@ export class NewsItem {
 	public readonly date?: string | undefined
 	public readonly contentPreview: string
 	public readonly crawledAt: Date
+	public readonly sourceId: string
+	public readonly content: string
+	public readonly firstSeenAt: Date
+	public readonly lastSeenAt: Date
+	// Filter rule that kept the item out of notifications
+	public readonly suppressedBy?: string | undefined
+	public readonly categories: string[]
+	// Unset until the item has been classified
+	public readonly priority?: ItemPriority | undefined
+	// Hash of the list data, changes when the source edits the item
+	public readonly fingerprint?: string | undefined
+	// Set on copies announcing an update of an already seen item
+	public readonly changes?: ItemChanges | undefined
 
 	constructor(
 		id: string,
@@ -26,7 +108,16 @@ export class NewsItem {
 		link: string,
 		date?: string | undefined,
 		contentPreview: string = '',
-		crawledAt: Date = new Date()
+		crawledAt: Date = new Date(),
+		sourceId: string = DEFAULT_SOURCE_ID,
+		content: string = '',
+		firstSeenAt: Date = crawledAt,
+		lastSeenAt: Date = crawledAt,
+		suppressedBy?: string | undefined,
+		categories: string[] = [],
+		priority?: ItemPriority | undefined,
+		fingerprint?: string | undefined,
+		changes?: ItemChanges | undefined
 	) {
 		if (!id || id.trim().length === 0) {
 			throw new Error('NewsItem ID cannot be empty')
@@ -44,21 +135,180 @@ export class NewsItem {
 		this.date = date
 		this.contentPreview = contentPreview.substring(0, 200)
 		this.crawledAt = crawledAt
+		this.sourceId = sourceId
+		this.content = content
+		this.firstSeenAt = firstSeenAt
+		this.lastSeenAt = lastSeenAt
+		this.suppressedBy = suppressedBy
+		this.categories = categories
+		this.priority = priority
+		this.fingerprint = fingerprint
+		this.changes = changes
 	}
 
 	/**
-	 * Factory method to create NewsItem with auto-generated ID
+	 * Factory method to create NewsItem with an ID derived from the source
+	 * and a key that survives edits, the normalised link unless given
 	 */
 	public static create(
 		title: string,
 		link: string,
 		date?: string | undefined,
-		contentPreview: string = ''
+		contentPreview: string = '',
+		sourceId: string = DEFAULT_SOURCE_ID,
+		identityKey: string = normalizeLink(link)
 	): NewsItem {
-		const content = `${title}${link}`
-		const itemId = createHash('md5').update(content, 'utf8').digest('hex')
+		const itemId = createHash('md5')
+			.update(`${sourceId}\n${identityKey}`, 'utf8')
+			.digest('hex')
+		const fingerprint = createHash('md5')
+			.update([title, date || '', contentPreview].join('\n'), 'utf8')
+			.digest('hex')
 
-		return new NewsItem(itemId, title, link, date, contentPreview, new Date())
+		return new NewsItem(
+			itemId,
+			title,
+			link,
+			date,
+			contentPreview,
+			new Date(),
+			sourceId,
+			'',
+			undefined,
+			undefined,
+			undefined,
+			[],
+			undefined,
+			fingerprint
+		)
+	}
+
+	/**
+	 * ID items had before they got a stable identity, a hash of title and
+	 * link, so a corrected title looked like a new item
+	 */
+	public static createLegacyId(title: string, link: string): string {
+		return createHash('md5').update(`${title}${link}`, 'utf8').digest('hex')
+	}
+
+	/**
+	 * Copy with the full article text, the preview falls back to the article
+	 */
+	public withContent(content: string): NewsItem {
+		return new NewsItem(
+			this.id,
+			this.title,
+			this.link,
+			this.date,
+			this.contentPreview || content,
+			this.crawledAt,
+			this.sourceId,
+			content,
+			this.firstSeenAt,
+			this.lastSeenAt,
+			this.suppressedBy,
+			this.categories,
+			this.priority,
+			this.fingerprint,
+			this.changes
+		)
+	}
+
+	/**
+	 * Copy marked as suppressed by a filter rule
+	 */
+	public withSuppression(ruleName: string): NewsItem {
+		return new NewsItem(
+			this.id,
+			this.title,
+			this.link,
+			this.date,
+			this.contentPreview,
+			this.crawledAt,
+			this.sourceId,
+			this.content,
+			this.firstSeenAt,
+			this.lastSeenAt,
+			ruleName,
+			this.categories,
+			this.priority,
+			this.fingerprint,
+			this.changes
+		)
+	}
+
+	/**
+	 * Copy tagged with the categories and priority the classifier assigned
+	 */
+	public withClassification(
+		categories: string[],
+		priority: ItemPriority
+	): NewsItem {
+		return new NewsItem(
+			this.id,
+			this.title,
+			this.link,
+			this.date,
+			this.contentPreview,
+			this.crawledAt,
+			this.sourceId,
+			this.content,
+			this.firstSeenAt,
+			this.lastSeenAt,
+			this.suppressedBy,
+			categories,
+			priority,
+			this.fingerprint,
+			this.changes
+		)
+	}
+
+	/**
+	 * Copy announcing what changed since the stored version
+	 */
+	public withChanges(changes: ItemChanges): NewsItem {
+		return new NewsItem(
+			this.id,
+			this.title,
+			this.link,
+			this.date,
+			this.contentPreview,
+			this.crawledAt,
+			this.sourceId,
+			this.content,
+			this.firstSeenAt,
+			this.lastSeenAt,
+			this.suppressedBy,
+			this.categories,
+			this.priority,
+			this.fingerprint,
+			changes
+		)
+	}
+
+	/**
+	 * Merge this fresh crawl with the stored copy of the same item, keeping
+	 * when it was first seen and anything the fresh crawl did not fetch
+	 */
+	public mergeWithStored(stored: NewsItem): NewsItem {
+		return new NewsItem(
+			this.id,
+			this.title,
+			this.link,
+			this.date ?? stored.date,
+			this.contentPreview || stored.contentPreview,
+			this.crawledAt,
+			this.sourceId,
+			this.content || stored.content,
+			stored.firstSeenAt < this.firstSeenAt
+				? stored.firstSeenAt
+				: this.firstSeenAt,
+			stored.lastSeenAt > this.lastSeenAt ? stored.lastSeenAt : this.lastSeenAt,
+			this.suppressedBy ?? stored.suppressedBy,
+			this.priority ? this.categories : stored.categories,
+			this.priority ?? stored.priority,
+			this.fingerprint ?? stored.fingerprint
+		)
 	}
 
 	/**
@@ -72,6 +322,15 @@ export class NewsItem {
 			date: this.date,
 			contentPreview: this.contentPreview,
 			crawledAt: this.crawledAt,
+			sourceId: this.sourceId,
+			content: this.content || undefined,
+			firstSeenAt: this.firstSeenAt,
+			lastSeenAt: this.lastSeenAt,
+			suppressedBy: this.suppressedBy,
+			categories: this.categories.length > 0 ? this.categories : undefined,
+			priority: this.priority,
+			fingerprint: this.fingerprint,
+			changes: this.changes,
 		}
 	}
 
@@ -79,13 +338,24 @@ export class NewsItem {
 	 * Create from dictionary
 	 */
 	public static fromDict(data: NewsItemData): NewsItem {
+		// Dates arrive as strings when read back from JSON
+		const crawledAt = new Date(data.crawledAt)
 		return new NewsItem(
 			data.id,
 			data.title,
 			data.link,
 			data.date,
 			data.contentPreview,
-			data.crawledAt
+			crawledAt,
+			data.sourceId || DEFAULT_SOURCE_ID,
+			data.content || '',
+			data.firstSeenAt ? new Date(data.firstSeenAt) : crawledAt,
+			data.lastSeenAt ? new Date(data.lastSeenAt) : crawledAt,
+			data.suppressedBy,
+			data.categories || [],
+			data.priority,
+			data.fingerprint,
+			data.changes
 		)
 	}
 }
@@ -94,20 +364,39 @@ export interface CrawlResultData {
 	success: boolean
 	items: NewsItemData[]
 	newItems: NewsItemData[]
+	updatedItems: NewsItemData[]
 	errors: string[]
 	executionTime: number
 	timestamp: Date
 	isFirstRun: boolean
+	sourceId?: string | undefined
+	sourceResults: CrawlResultData[]
+	notificationResults: NotificationResultData[]
+	filterResults: FilterRuleResult[]
+}
+
+/**
+ * How many new items one filter rule suppressed in a run
+ */
+export interface FilterRuleResult {
+	rule: string
+	suppressed: number
 }
 
 export class CrawlResult {
 	public readonly success: boolean
 	public readonly items: NewsItem[]
 	public newItems: NewsItem[]
+	// Known items the source has edited, with their changes
+	public updatedItems: NewsItem[] = []
 	public readonly errors: string[]
 	public readonly executionTime: number
 	public readonly timestamp: Date
 	public readonly isFirstRun: boolean
+	public readonly sourceId?: string | undefined
+	public readonly sourceResults: CrawlResult[]
+	public notificationResults: NotificationResult[] = []
+	public filterResults: FilterRuleResult[] = []
 
 	constructor(
 		success: boolean,
@@ -116,7 +405,9 @@ export class CrawlResult {
 		errors: string[],
 		executionTime: number,
 		timestamp: Date = new Date(),
-		isFirstRun: boolean = false
+		isFirstRun: boolean = false,
+		sourceId?: string | undefined,
+		sourceResults: CrawlResult[] = []
 	) {
 		this.success = success
 		this.items = items
@@ -125,6 +416,8 @@ export class CrawlResult {
 		this.executionTime = executionTime
 		this.timestamp = timestamp
 		this.isFirstRun = isFirstRun
+		this.sourceId = sourceId
+		this.sourceResults = sourceResults
 	}
 
 	/**
@@ -135,10 +428,17 @@ export class CrawlResult {
 			success: this.success,
 			items: this.items.map((item) => item.toDict()),
 			newItems: this.newItems.map((item) => item.toDict()),
+			updatedItems: this.updatedItems.map((item) => item.toDict()),
 			errors: this.errors,
 			executionTime: this.executionTime,
 			timestamp: this.timestamp,
 			isFirstRun: this.isFirstRun,
+			sourceId: this.sourceId,
+			sourceResults: this.sourceResults.map((result) => result.toDict()),
+			notificationResults: this.notificationResults.map((result) =>
+				result.toDict()
+			),
+			filterResults: this.filterResults,
 		}
 	}
 }
@@ -149,6 +449,8 @@ export interface NotificationResultData {
 	message: string
 	timestamp: Date
 	error?: string | undefined
+	providerMessageId?: string | undefined
+	deliveredItemIds?: string[] | undefined
 }
 
 export class NotificationResult {
@@ -157,19 +459,27 @@ export class NotificationResult {
 	public readonly message: string
 	public readonly timestamp: Date
 	public readonly error?: string | undefined
+	// Id assigned by the provider, comma separated when several were sent
+	public readonly providerMessageId?: string | undefined
+	// Items whose part of a split message went out before a later part failed
+	public readonly deliveredItemIds?: string[] | undefined
 
 	constructor(
 		success: boolean,
 		channel: string,
 		message: string,
 		timestamp: Date = new Date(),
-		error?: string | undefined
+		error?: string | undefined,
+		providerMessageId?: string | undefined,
+		deliveredItemIds?: string[] | undefined
 	) {
 		this.success = success
 		this.channel = channel
 		this.message = message
 		this.timestamp = timestamp
 		this.error = error
+		this.providerMessageId = providerMessageId
+		this.deliveredItemIds = deliveredItemIds
 	}
 
 	public toDict(): NotificationResultData {
@@ -179,6 +489,8 @@ export class NotificationResult {
 			message: this.message,
 			timestamp: this.timestamp,
 			error: this.error,
+			providerMessageId: this.providerMessageId,
+			deliveredItemIds: this.deliveredItemIds,
 		}
 	}
 }
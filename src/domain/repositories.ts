@@ -5,7 +5,7 @@ import { NewsItem } from './entities'
 
 export interface NewsRepository {
 	/**
-	 * Save news items
+	 * Merge news items into the store, keeping items not in this batch
 	 */
 	save(items: NewsItem[]): Promise<boolean>
 
@@ -20,7 +20,23 @@ export interface NewsRepository {
 	findNewItems(currentItems: NewsItem[]): Promise<NewsItem[]>
 
 	/**
-	 * Remove old entries and return count of removed items
+	 * Stored copies of the given items keyed by their current id, including
+	 * items still cached under their legacy id
+	 */
+	findStored(currentItems: NewsItem[]): Promise<Map<string, NewsItem>>
+
+	/**
+	 * Record earlier versions of items the source has edited
+	 */
+	addRevisions(revisions: ItemRevision[]): Promise<void>
+
+	/**
+	 * Earlier versions of an item, or of every item, oldest first
+	 */
+	findRevisions(itemId?: string): Promise<ItemRevision[]>
+
+	/**
+	 * Remove entries not seen for maxAgeDays and return count of removed items
 	 */
 	cleanupOldEntries(maxAgeDays?: number): Promise<number>
 
@@ -40,6 +56,138 @@ export interface NewsRepository {
 	resetFirstRunState(): Promise<boolean>
 }
 
+/**
+ * A version of an item that was replaced by an edit at the source
+ */
+export interface ItemRevision {
+	itemId: string
+	// Counts from 1 for the version first seen
+	revision: number
+	title: string
+	date?: string
+	contentPreview: string
+	content: string
+	fingerprint?: string
+	replacedAt: Date
+}
+
+/**
+ * Digest queues are kept per channel, or per recipient of a channel when a
+ * recipient is given
+ */
+export interface DigestQueueRepository {
+	/**
+	 * Queue items for the next digest, skipping ones already queued
+	 */
+	enqueue(channel: string, items: NewsItem[], recipient?: string): Promise<void>
+
+	/**
+	 * Items waiting for the next digest, oldest first
+	 */
+	findQueued(channel: string, recipient?: string): Promise<NewsItem[]>
+
+	/**
+	 * Remove delivered items from a queue
+	 */
+	remove(channel: string, itemIds: string[], recipient?: string): Promise<void>
+}
+
+/**
+ * A notification held back by quiet hours
+ */
+export interface HeldNotification {
+	id: string
+	channel: string
+	// Unset when the whole channel is quiet rather than one recipient
+	recipient?: string
+	items: NewsItem[]
+	isDigest: boolean
+	heldAt: Date
+}
+
+export interface HeldNotificationRepository {
+	hold(notification: Omit<HeldNotification, 'id'>): Promise<void>
+
+	/**
+	 * Notifications held for a channel, oldest first
+	 */
+	findHeld(channel: string): Promise<HeldNotification[]>
+
+	remove(ids: string[]): Promise<void>
+}
+
+export type OutboxStatus = 'pending' | 'dead'
+
+/**
+ * One delivery to one recipient, kept until it succeeds
+ */
+export interface OutboxEntry {
+	id: string
+	channel: string
+	// Unset for channels without separate recipients
+	recipient?: string
+	items: NewsItem[]
+	isDevNotification: boolean
+	isDigest: boolean
+	status: OutboxStatus
+	attempts: number
+	nextAttemptAt: Date
+	lastError?: string
+	// Items an earlier attempt delivered in part of a split message, left
+	// out of retries
+	deliveredItemIds?: string[]
+	createdAt: Date
+}
+
+export interface OutboxRepository {
+	add(entries: Omit<OutboxEntry, 'id'>[]): Promise<OutboxEntry[]>
+
+	/**
+	 * Pending deliveries of a channel due at the given time, oldest first
+	 */
+	findDue(channel: string, at: Date): Promise<OutboxEntry[]>
+
+	findAll(): Promise<OutboxEntry[]>
+
+	update(entry: OutboxEntry): Promise<void>
+
+	remove(id: string): Promise<void>
+}
+
+export type DeliveryStatus = 'delivered' | 'failed' | 'dead'
+
+/**
+ * Outcome of one delivery attempt to one recipient
+ */
+export interface DeliveryLogEntry {
+	itemIds: string[]
+	channel: string
+	recipient?: string
+	status: DeliveryStatus
+	error?: string
+	providerMessageId?: string
+	timestamp: Date
+}
+
+export interface DeliveryLogQuery {
+	itemId?: string
+	channel?: string
+	recipient?: string
+	status?: DeliveryStatus
+	since?: Date
+	until?: Date
+	limit?: number
+}
+
+export interface DeliveryLogRepository {
+	append(entry: DeliveryLogEntry): Promise<void>
+
+	/**
+	 * Matching entries, newest first
+	 */
+	find(query: DeliveryLogQuery): Promise<DeliveryLogEntry[]>
+}
+
 export interface ConfigRepository {
 	/**
 	 * Get crawler configuration
@@ -68,10 +216,21 @@ export interface RepositoryStats {
 	newestItem?: Date | undefined
 	cacheSize: number
 	lastCleanup?: Date | undefined
+	itemsBySource: Record<string, number>
 }
 
 export interface CrawlerConfig {
-	targetUrl: string
+	timeoutSeconds: number
+	maxRetries: number
+	userAgents: string[]
+	sources: SourceConfig[]
+}
+
+export interface SourceConfig {
+	id: string
+	name: string
+	type: string
+	url: string
 	timeoutSeconds: number
 	maxRetries: number
 	userAgents: string[]
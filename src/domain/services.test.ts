@@ -0,0 +1,1094 @@
+import { NewsItem, NotificationResult } from './entities'
+import {
+	DeliveryLogEntry,
+	DeliveryLogQuery,
+	DeliveryLogRepository,
+	DigestQueueRepository,
+	HeldNotification,
+	HeldNotificationRepository,
+	OutboxEntry,
+	OutboxRepository,
+} from './repositories'
+import {
+	diffLines,
+	DigestNotificationService,
+	ItemClassifier,
+	ItemFilterPipeline,
+	NotificationRequest,
+	NotificationService,
+	OutboxNotificationService,
+	PriorityRoutingNotificationService,
+	QuietHoursNotificationService,
+	QuietHoursPolicy,
+	SubscriptionNotificationService,
+} from './services'
+
+const NOW = new Date('2024-05-06T09:00:00Z')
+
+/**
+ * Records every request and answers with queued results, succeeding once
+ * the queue is empty
+ */
+class StubChannel implements NotificationService {
+	public readonly channel = 'stub'
+	public readonly recipients?: string[]
+	public readonly requests: NotificationRequest[] = []
+	private readonly results: NotificationResult[] = []
+
+	constructor(recipients?: string[]) {
+		if (recipients) {
+			this.recipients = recipients
+		}
+	}
+
+	public failNext(error: string, deliveredItemIds?: string[]): void {
+		this.results.push(
+			new NotificationResult(
+				false,
+				this.channel,
+				'',
+				new Date(),
+				error,
+				undefined,
+				deliveredItemIds
+			)
+		)
+	}
+
+	public async sendNotification(
+		request: NotificationRequest
+	): Promise<NotificationResult> {
+		this.requests.push(request)
+		return (
+			this.results.shift() ||
+			new NotificationResult(true, this.channel, 'Sent', new Date())
+		)
+	}
+
+	public async testConnection(): Promise<boolean> {
+		return true
+	}
+}
+
+class InMemoryOutbox implements OutboxRepository {
+	public entries: OutboxEntry[] = []
+	private nextId = 1
+
+	public async add(entries: Omit<OutboxEntry, 'id'>[]): Promise<OutboxEntry[]> {
+		const added = entries.map((entry) => ({
+			...entry,
+			id: String(this.nextId++),
+		}))
+		this.entries.push(...added)
+		return added
+	}
+
+	public async findDue(channel: string, at: Date): Promise<OutboxEntry[]> {
+		return this.entries.filter(
+			(entry) =>
+				entry.channel === channel &&
+				entry.status === 'pending' &&
+				entry.nextAttemptAt <= at
+		)
+	}
+
+	public async findAll(): Promise<OutboxEntry[]> {
+		return [...this.entries]
+	}
+
+	public async update(entry: OutboxEntry): Promise<void> {
+		this.entries = this.entries.map((existing) =>
+			existing.id === entry.id ? entry : existing
+		)
+	}
+
+	public async remove(id: string): Promise<void> {
+		this.entries = this.entries.filter((entry) => entry.id !== id)
+	}
+}
+
+class InMemoryDeliveryLog implements DeliveryLogRepository {
+	public readonly entries: DeliveryLogEntry[] = []
+
+	public async append(entry: DeliveryLogEntry): Promise<void> {
+		this.entries.push(entry)
+	}
+
+	public async find(query: DeliveryLogQuery): Promise<DeliveryLogEntry[]> {
+		return this.entries.filter(
+			(entry) => !query.status || entry.status === query.status
+		)
+	}
+}
+
+class InMemoryDigestQueue implements DigestQueueRepository {
+	private readonly queues = new Map<string, NewsItem[]>()
+
+	public async enqueue(
+		channel: string,
+		items: NewsItem[],
+		recipient?: string
+	): Promise<void> {
+		const queue = await this.findQueued(channel, recipient)
+		const queuedIds = new Set(queue.map((item) => item.id))
+		this.queues.set(this.getKey(channel, recipient), [
+			...queue,
+			...items.filter((item) => !queuedIds.has(item.id)),
+		])
+	}
+
+	public async findQueued(
+		channel: string,
+		recipient?: string
+	): Promise<NewsItem[]> {
+		return this.queues.get(this.getKey(channel, recipient)) || []
+	}
+
+	public async remove(
+		channel: string,
+		itemIds: string[],
+		recipient?: string
+	): Promise<void> {
+		const queue = await this.findQueued(channel, recipient)
+		this.queues.set(
+			this.getKey(channel, recipient),
+			queue.filter((item) => !itemIds.includes(item.id))
+		)
+	}
+
+	private getKey(channel: string, recipient: string | undefined): string {
+		return recipient === undefined ? channel : `${channel}/${recipient}`
+	}
+}
+
+class InMemoryHeldNotifications implements HeldNotificationRepository {
+	public held: HeldNotification[] = []
+	private nextId = 1
+
+	public async hold(notification: Omit<HeldNotification, 'id'>): Promise<void> {
+		this.held.push({ ...notification, id: String(this.nextId++) })
+	}
+
+	public async findHeld(channel: string): Promise<HeldNotification[]> {
+		return this.held.filter((held) => held.channel === channel)
+	}
+
+	public async remove(ids: string[]): Promise<void> {
+		this.held = this.held.filter((held) => !ids.includes(held.id))
+	}
+}
+
+/**
+ * Quiet for the listed recipients, or for the whole channel, until woken
+ */
+class StubQuietHours implements QuietHoursPolicy {
+	public readonly quiet = new Set<string | undefined>()
+
+	public isQuiet(_channel: string, recipient: string | undefined): boolean {
+		return this.quiet.has(recipient)
+	}
+}
+
+const createItem = (id: number): NewsItem =>
+	NewsItem.create(`Notice ${id}`, `https://example.com/news/${id}`)
+
+const createRequest = (...items: NewsItem[]): NotificationRequest => ({
+	items,
+	isDevNotification: false,
+})
+
+describe('OutboxNotificationService', () => {
+	let channel: StubChannel
+	let outbox: InMemoryOutbox
+	let deliveryLog: InMemoryDeliveryLog
+
+	const createService = (maxAttempts = 3): OutboxNotificationService =>
+		new OutboxNotificationService(
+			channel,
+			outbox,
+			{ maxAttempts, baseDelaySeconds: 60 },
+			deliveryLog
+		)
+
+	beforeEach(() => {
+		jest.useFakeTimers({ now: NOW })
+		channel = new StubChannel()
+		outbox = new InMemoryOutbox()
+		deliveryLog = new InMemoryDeliveryLog()
+	})
+
+	afterEach(() => {
+		jest.useRealTimers()
+	})
+
+	it('removes the entry once delivered', async () => {
+		const result = await createService().sendNotification(
+			createRequest(createItem(1))
+		)
+
+		expect(result.success).toBe(true)
+		expect(outbox.entries).toHaveLength(0)
+		expect(deliveryLog.entries.map((entry) => entry.status)).toEqual([
+			'delivered',
+		])
+	})
+
+	it('adds one entry per recipient', async () => {
+		channel = new StubChannel(['a@example.com', 'b@example.com'])
+		channel.failNext('Mailbox full')
+
+		await createService().sendNotification(createRequest(createItem(1)))
+
+		expect(channel.requests.map((request) => request.recipients)).toEqual([
+			['a@example.com'],
+			['b@example.com'],
+		])
+		expect(outbox.entries.map((entry) => entry.recipient)).toEqual([
+			'a@example.com',
+		])
+	})
+
+	describe('pending entries', () => {
+		it('are not sent again for the same items', async () => {
+			const service = createService()
+			channel.failNext('Timeout')
+			await service.sendNotification(createRequest(createItem(1)))
+
+			const result = await service.sendNotification(
+				createRequest(createItem(1))
+			)
+
+			expect(result.success).toBe(true)
+			expect(result.message).toBe('Already pending in the outbox')
+			expect(channel.requests).toHaveLength(1)
+			expect(outbox.entries).toHaveLength(1)
+		})
+
+		it('do not hold back new items sent with them', async () => {
+			const service = createService()
+			const [first, second] = [createItem(1), createItem(2)]
+			channel.failNext('Timeout')
+			await service.sendNotification(createRequest(first))
+
+			await service.sendNotification(createRequest(first, second))
+
+			expect(channel.requests[1]!.items).toEqual([second])
+		})
+
+		it('do not hold back updates of the same item', async () => {
+			const service = createService()
+			channel.failNext('Timeout')
+			await service.sendNotification(createRequest(createItem(1)))
+
+			const updated = createItem(1).withChanges({
+				revision: 2,
+				title: { before: 'Notice 1', after: 'Notice 1 (amended)' },
+			})
+			await service.sendNotification(createRequest(updated))
+
+			expect(channel.requests).toHaveLength(2)
+			expect(channel.requests[1]!.items).toEqual([updated])
+		})
+	})
+
+	describe('retries', () => {
+		it('back off exponentially', async () => {
+			const service = createService(4)
+			channel.failNext('Timeout')
+			channel.failNext('Timeout')
+			channel.failNext('Timeout')
+
+			await service.sendNotification(createRequest(createItem(1)))
+			expect(outbox.entries[0]!.nextAttemptAt).toEqual(
+				new Date(NOW.getTime() + 60 * 1000)
+			)
+
+			// Not due yet
+			expect(await service.retryDue(NOW)).toEqual([])
+
+			jest.setSystemTime(new Date(NOW.getTime() + 60 * 1000))
+			await service.retryDue()
+			expect(outbox.entries[0]!.attempts).toBe(2)
+			expect(outbox.entries[0]!.nextAttemptAt).toEqual(
+				new Date(NOW.getTime() + 3 * 60 * 1000)
+			)
+
+			jest.setSystemTime(new Date(NOW.getTime() + 3 * 60 * 1000))
+			await service.retryDue()
+			expect(outbox.entries[0]!.nextAttemptAt).toEqual(
+				new Date(NOW.getTime() + 7 * 60 * 1000)
+			)
+		})
+
+		it('dead-letter the entry after the last attempt', async () => {
+			const service = createService(2)
+			channel.failNext('Timeout')
+			channel.failNext('Server error')
+
+			await service.sendNotification(createRequest(createItem(1)))
+			jest.setSystemTime(new Date(NOW.getTime() + 60 * 1000))
+			const [result] = await service.retryDue()
+
+			expect(result!.success).toBe(false)
+			expect(result!.error).toBe(
+				'Server error (dead-lettered after 2 attempts)'
+			)
+			expect(outbox.entries[0]!.status).toBe('dead')
+			expect(outbox.entries[0]!.lastError).toBe('Server error')
+			expect(deliveryLog.entries.map((entry) => entry.status)).toEqual([
+				'failed',
+				'dead',
+			])
+
+			// Dead entries are not retried
+			jest.setSystemTime(new Date(NOW.getTime() + 24 * 60 * 60 * 1000))
+			expect(await service.retryDue()).toEqual([])
+			expect(channel.requests).toHaveLength(2)
+		})
+
+		it('skip items whose part of a split message went out', async () => {
+			const service = createService()
+			const [first, second, third] = [
+				createItem(1),
+				createItem(2),
+				createItem(3),
+			]
+			channel.failNext('Second part rejected', [first.id])
+
+			await service.sendNotification(createRequest(first, second, third))
+			expect(outbox.entries[0]!.deliveredItemIds).toEqual([first.id])
+			expect(deliveryLog.entries).toEqual([
+				expect.objectContaining({ status: 'delivered', itemIds: [first.id] }),
+				expect.objectContaining({
+					status: 'failed',
+					itemIds: [second.id, third.id],
+				}),
+			])
+
+			jest.setSystemTime(new Date(NOW.getTime() + 60 * 1000))
+			await service.retryDue()
+
+			expect(channel.requests[1]!.items).toEqual([second, third])
+			expect(outbox.entries).toHaveLength(0)
+		})
+	})
+})
+
+describe('DigestNotificationService', () => {
+	let channel: StubChannel
+	let digestQueue: InMemoryDigestQueue
+
+	beforeEach(() => {
+		channel = new StubChannel()
+		digestQueue = new InMemoryDigestQueue()
+	})
+
+	it('queues items instead of sending them', async () => {
+		const service = new DigestNotificationService(channel, digestQueue)
+
+		const result = await service.sendNotification(
+			createRequest(createItem(1), createItem(2))
+		)
+
+		expect(result.success).toBe(true)
+		expect(result.message).toBe('Queued 2 items for the next digest')
+		expect(channel.requests).toEqual([])
+		expect(await digestQueue.findQueued('stub')).toHaveLength(2)
+	})
+
+	it('sends deployment notifications right away', async () => {
+		const service = new DigestNotificationService(channel, digestQueue)
+
+		await service.sendNotification({
+			items: [createItem(1)],
+			isDevNotification: true,
+		})
+
+		expect(channel.requests).toHaveLength(1)
+		expect(await digestQueue.findQueued('stub')).toEqual([])
+	})
+
+	it('sends urgent items right away and queues the rest', async () => {
+		const service = new DigestNotificationService(channel, digestQueue, {
+			titlePattern: '/^urgent:/i',
+			sourceIds: ['alerts'],
+			minPriority: 'high',
+		})
+		const byTitle = NewsItem.create('URGENT: Water outage', 'https://a.test/1')
+		const bySource = NewsItem.create(
+			'Road closed',
+			'https://a.test/2',
+			undefined,
+			'',
+			'alerts'
+		)
+		const byPriority = createItem(3).withClassification([], 'high')
+		const regular = createItem(4)
+
+		const result = await service.sendNotification(
+			createRequest(byTitle, bySource, byPriority, regular)
+		)
+
+		expect(channel.requests[0]!.items).toEqual([byTitle, bySource, byPriority])
+		expect(result.message).toBe('Sent; Queued 1 items for the next digest')
+		expect(await digestQueue.findQueued('stub')).toEqual([regular])
+	})
+
+	describe('flush', () => {
+		it('sends the queue as one digest and empties it', async () => {
+			const service = new DigestNotificationService(channel, digestQueue)
+			const [first, second] = [createItem(1), createItem(2)]
+			await service.sendNotification(createRequest(first))
+			await service.sendNotification(createRequest(second))
+
+			const result = await service.flush()
+
+			expect(result?.success).toBe(true)
+			expect(channel.requests).toEqual([
+				{
+					items: [first, second],
+					isDevNotification: false,
+					isDigest: true,
+				},
+			])
+			expect(await digestQueue.findQueued('stub')).toEqual([])
+		})
+
+		it('keeps items queued when sending fails', async () => {
+			const service = new DigestNotificationService(channel, digestQueue)
+			const item = createItem(1)
+			await service.sendNotification(createRequest(item))
+			channel.failNext('Timeout')
+
+			const result = await service.flush()
+
+			expect(result?.success).toBe(false)
+			expect(await digestQueue.findQueued('stub')).toEqual([item])
+		})
+
+		it('sends nothing when the queue is empty', async () => {
+			const service = new DigestNotificationService(channel, digestQueue)
+
+			expect(await service.flush()).toBeUndefined()
+			expect(channel.requests).toEqual([])
+		})
+	})
+
+	describe('with digest recipients', () => {
+		beforeEach(() => {
+			channel = new StubChannel(['a@example.com', 'b@example.com'])
+		})
+
+		it('queues for them and sends to the other recipients', async () => {
+			const service = new DigestNotificationService(channel, digestQueue, {}, [
+				'a@example.com',
+			])
+
+			const item = createItem(1)
+			await service.sendNotification(createRequest(item))
+
+			expect(channel.requests.map((request) => request.recipients)).toEqual([
+				['b@example.com'],
+			])
+			expect(await digestQueue.findQueued('stub', 'a@example.com')).toEqual([
+				item,
+			])
+			expect(await digestQueue.findQueued('stub')).toEqual([])
+		})
+
+		it('flushes one digest per recipient', async () => {
+			const service = new DigestNotificationService(channel, digestQueue, {}, [
+				'a@example.com',
+				'b@example.com',
+			])
+			await service.sendNotification(createRequest(createItem(1)))
+			await service.sendNotification({
+				...createRequest(createItem(2)),
+				recipients: ['b@example.com'],
+			})
+
+			await service.flush()
+
+			expect(
+				channel.requests.map((request) => [
+					request.recipients,
+					request.items.length,
+				])
+			).toEqual([
+				[['a@example.com'], 1],
+				[['b@example.com'], 2],
+			])
+		})
+	})
+})
+
+describe('QuietHoursNotificationService', () => {
+	let channel: StubChannel
+	let heldNotifications: InMemoryHeldNotifications
+	let quietHours: StubQuietHours
+
+	const createService = (merge = true): QuietHoursNotificationService =>
+		new QuietHoursNotificationService(
+			channel,
+			heldNotifications,
+			quietHours,
+			merge
+		)
+
+	beforeEach(() => {
+		channel = new StubChannel(['a@example.com', 'b@example.com'])
+		heldNotifications = new InMemoryHeldNotifications()
+		quietHours = new StubQuietHours()
+	})
+
+	it('holds items for quiet recipients and sends them to the others', async () => {
+		quietHours.quiet.add('a@example.com')
+		const item = createItem(1)
+
+		const result = await createService().sendNotification(createRequest(item))
+
+		expect(result.message).toBe(
+			'Sent; Held for 1 recipients until quiet hours end'
+		)
+		expect(channel.requests.map((request) => request.recipients)).toEqual([
+			['b@example.com'],
+		])
+		expect(heldNotifications.held).toEqual([
+			expect.objectContaining({ recipient: 'a@example.com', items: [item] }),
+		])
+	})
+
+	it('holds the whole channel when it has no separate recipients', async () => {
+		channel = new StubChannel()
+		quietHours.quiet.add(undefined)
+
+		const result = await createService().sendNotification(
+			createRequest(createItem(1))
+		)
+
+		expect(result.message).toBe('Held until quiet hours end')
+		expect(channel.requests).toEqual([])
+		expect(heldNotifications.held[0]!.recipient).toBeUndefined()
+	})
+
+	it('never holds deployment notifications', async () => {
+		quietHours.quiet.add('a@example.com')
+
+		await createService().sendNotification({
+			items: [createItem(1)],
+			isDevNotification: true,
+		})
+
+		expect(channel.requests).toHaveLength(1)
+		expect(heldNotifications.held).toEqual([])
+	})
+
+	it('does not hold an item twice for the same recipient', async () => {
+		quietHours.quiet.add('a@example.com')
+		const service = createService()
+		const [first, second] = [createItem(1), createItem(2)]
+		await service.sendNotification(createRequest(first))
+
+		await service.sendNotification(createRequest(first, second))
+		await service.sendNotification(createRequest(first))
+
+		expect(heldNotifications.held.map((held) => held.items)).toEqual([
+			[first],
+			[second],
+		])
+	})
+
+	describe('releaseDue', () => {
+		it('waits until quiet hours end', async () => {
+			quietHours.quiet.add('a@example.com')
+			const service = createService()
+			await service.sendNotification(createRequest(createItem(1)))
+			channel.requests.length = 0
+
+			expect(await service.releaseDue()).toEqual([])
+			expect(heldNotifications.held).toHaveLength(1)
+		})
+
+		it('merges everything held for a recipient into one message', async () => {
+			quietHours.quiet.add('a@example.com')
+			const service = createService()
+			const [first, second] = [createItem(1), createItem(2)]
+			await service.sendNotification(createRequest(first))
+			await service.sendNotification(createRequest(second))
+			channel.requests.length = 0
+			quietHours.quiet.clear()
+
+			const results = await service.releaseDue()
+
+			expect(results).toHaveLength(1)
+			expect(channel.requests).toEqual([
+				{
+					items: [first, second],
+					isDevNotification: false,
+					isDigest: false,
+					recipients: ['a@example.com'],
+				},
+			])
+			expect(heldNotifications.held).toEqual([])
+		})
+
+		it('delivers each held notification separately without merge', async () => {
+			quietHours.quiet.add('a@example.com')
+			const service = createService(false)
+			await service.sendNotification(createRequest(createItem(1)))
+			await service.sendNotification(createRequest(createItem(2)))
+			channel.requests.length = 0
+			quietHours.quiet.clear()
+
+			await service.releaseDue()
+
+			expect(channel.requests).toHaveLength(2)
+		})
+
+		it('keeps notifications held when sending fails', async () => {
+			quietHours.quiet.add('a@example.com')
+			const service = createService()
+			await service.sendNotification(createRequest(createItem(1)))
+			quietHours.quiet.clear()
+			channel.failNext('Mailbox full')
+
+			const [result] = await service.releaseDue()
+
+			expect(result!.success).toBe(false)
+			expect(heldNotifications.held).toHaveLength(1)
+		})
+	})
+})
+
+describe('SubscriptionNotificationService', () => {
+	const vaccine = NewsItem.create(
+		'Flu vaccine registration opens',
+		'https://a.test/1',
+		undefined,
+		'Clinics accept bookings from Monday.'
+	)
+	const outage = NewsItem.create('Water outage notice', 'https://a.test/2')
+	const tender = NewsItem.create(
+		'Vaccine storage tender',
+		'https://b.test/3',
+		undefined,
+		'',
+		'procurement'
+	)
+	let channel: StubChannel
+
+	beforeEach(() => {
+		channel = new StubChannel(['a@example.com', 'b@example.com'])
+	})
+
+	it('sends every item to recipients without a subscription', async () => {
+		const service = new SubscriptionNotificationService(channel, [
+			{
+				name: 'vaccines',
+				channel: 'stub',
+				recipients: ['a@example.com'],
+				include: ['vaccine'],
+			},
+		])
+
+		await service.sendNotification(createRequest(vaccine, outage))
+
+		expect(
+			channel.requests.map((request) => [
+				request.recipients,
+				request.items.map((item) => item.title),
+			])
+		).toEqual([
+			[['a@example.com'], [vaccine.title]],
+			[['b@example.com'], [vaccine.title, outage.title]],
+		])
+	})
+
+	it('matches keywords in the title and content, ignoring case', async () => {
+		const service = new SubscriptionNotificationService(channel, [
+			{ name: 'bookings', channel: 'stub', include: ['BOOKINGS'] },
+		])
+
+		await service.sendNotification(createRequest(vaccine, outage))
+
+		expect(channel.requests[0]!.items).toEqual([vaccine])
+	})
+
+	it('drops items matching an exclude pattern', async () => {
+		const service = new SubscriptionNotificationService(channel, [
+			{
+				name: 'no tenders',
+				channel: 'stub',
+				include: ['vaccine'],
+				exclude: ['/tenders?/i'],
+			},
+		])
+
+		await service.sendNotification(createRequest(vaccine, tender))
+
+		expect(channel.requests[0]!.items).toEqual([vaccine])
+	})
+
+	it('limits items to the subscribed sources', async () => {
+		const service = new SubscriptionNotificationService(channel, [
+			{ name: 'procurement', channel: 'stub', sourceIds: ['procurement'] },
+		])
+
+		await service.sendNotification(createRequest(vaccine, tender))
+
+		expect(channel.requests[0]!.items).toEqual([tender])
+	})
+
+	it("sends an item matching any of a recipient's subscriptions", async () => {
+		const service = new SubscriptionNotificationService(channel, [
+			{ name: 'vaccines', channel: 'stub', include: ['vaccine registration'] },
+			{ name: 'outages', channel: 'stub', include: ['outage'] },
+		])
+
+		await service.sendNotification(createRequest(vaccine, outage, tender))
+
+		expect(channel.requests[0]!.items).toEqual([vaccine, outage])
+	})
+
+	it('shares one send between recipients with the same items', async () => {
+		const service = new SubscriptionNotificationService(channel, [
+			{ name: 'outages', channel: 'stub', include: ['outage'] },
+		])
+
+		await service.sendNotification(createRequest(vaccine, outage))
+
+		expect(channel.requests).toHaveLength(1)
+		expect(channel.requests[0]!.recipients).toEqual([
+			'a@example.com',
+			'b@example.com',
+		])
+	})
+
+	it('sends nothing when no item matches', async () => {
+		const service = new SubscriptionNotificationService(channel, [
+			{ name: 'outages', channel: 'stub', include: ['outage'] },
+		])
+
+		const result = await service.sendNotification(createRequest(vaccine))
+
+		expect(result.message).toBe('No items match the subscriptions')
+		expect(channel.requests).toEqual([])
+	})
+
+	it('ignores subscriptions of other channels', async () => {
+		const service = new SubscriptionNotificationService(channel, [
+			{ name: 'outages', channel: 'email', include: ['outage'] },
+		])
+
+		await service.sendNotification(createRequest(vaccine))
+
+		expect(channel.requests[0]!.items).toEqual([vaccine])
+	})
+})
+
+describe('ItemClassifier', () => {
+	const classifier = new ItemClassifier(
+		[
+			{
+				name: 'outages',
+				category: 'outage',
+				priority: 'high',
+				patterns: ['outage', '/shut ?down/i'],
+			},
+			{ name: 'water', category: 'water', patterns: ['water'] },
+			{
+				name: 'events',
+				category: 'event',
+				priority: 'low',
+				patterns: ['festival', 'outage'],
+			},
+			{
+				name: 'tenders',
+				category: 'procurement',
+				patterns: ['tender'],
+				sourceIds: ['procurement'],
+			},
+		],
+		'normal'
+	)
+
+	it('assigns the category of every matching rule', () => {
+		const [item] = classifier.classify([
+			NewsItem.create('Water outage notice', 'https://a.test/1'),
+		])
+
+		expect(item!.categories).toEqual(['outage', 'water', 'event'])
+	})
+
+	it('keeps the highest priority among the matching rules', () => {
+		const [outage, festival] = classifier.classify([
+			NewsItem.create('Water outage notice', 'https://a.test/1'),
+			NewsItem.create('Lantern festival', 'https://a.test/2'),
+		])
+
+		expect(outage!.priority).toBe('high')
+		expect(festival!.priority).toBe('low')
+	})
+
+	it('matches the content as well as the title', () => {
+		const [item] = classifier.classify([
+			NewsItem.create(
+				'Maintenance notice',
+				'https://a.test/1',
+				undefined,
+				'Servers shut down on Saturday.'
+			),
+		])
+
+		expect(item!.categories).toEqual(['outage'])
+	})
+
+	it('gives unmatched items the default priority', () => {
+		const [item] = classifier.classify([
+			NewsItem.create('Clinic hours extended', 'https://a.test/1'),
+		])
+
+		expect(item!.categories).toEqual([])
+		expect(item!.priority).toBe('normal')
+	})
+
+	it('applies source rules only to their sources', () => {
+		const [other, procurement] = classifier.classify([
+			NewsItem.create('Storage tender', 'https://a.test/1'),
+			NewsItem.create(
+				'Storage tender',
+				'https://b.test/1',
+				undefined,
+				'',
+				'procurement'
+			),
+		])
+
+		expect(other!.categories).toEqual([])
+		expect(procurement!.categories).toEqual(['procurement'])
+	})
+})
+
+describe('PriorityRoutingNotificationService', () => {
+	const low = createItem(1).withClassification([], 'low')
+	const normal = createItem(2)
+	const high = createItem(3).withClassification([], 'high')
+	let channel: StubChannel
+
+	beforeEach(() => {
+		channel = new StubChannel()
+	})
+
+	it('sends only items at or above the priority', async () => {
+		const service = new PriorityRoutingNotificationService(channel, 'normal')
+
+		await service.sendNotification(createRequest(low, normal, high))
+
+		// Unclassified items count as normal
+		expect(channel.requests[0]!.items).toEqual([normal, high])
+	})
+
+	it('sends nothing when no item has the priority', async () => {
+		const service = new PriorityRoutingNotificationService(channel, 'high')
+
+		const result = await service.sendNotification(createRequest(low, normal))
+
+		expect(result.success).toBe(true)
+		expect(result.message).toBe('No items with high priority or higher')
+		expect(channel.requests).toEqual([])
+	})
+
+	it('passes deployment notifications through', async () => {
+		const service = new PriorityRoutingNotificationService(channel, 'high')
+
+		await service.sendNotification({ items: [low], isDevNotification: true })
+
+		expect(channel.requests[0]!.items).toEqual([low])
+	})
+})
+
+describe('ItemFilterPipeline', () => {
+	const createDatedItem = (title: string, date?: string): NewsItem =>
+		NewsItem.create(title, `https://a.test/${encodeURIComponent(title)}`, date)
+
+	it('marks suppressed items instead of dropping them', () => {
+		const pipeline = new ItemFilterPipeline([
+			{ name: 'no recruiting', action: 'exclude', patterns: ['recruitment'] },
+		])
+		const job = createDatedItem('Staff recruitment notice')
+		const notice = createDatedItem('Clinic hours extended')
+
+		const { items, results } = pipeline.apply([job, notice])
+
+		expect(items.map((item) => item.suppressedBy)).toEqual([
+			'no recruiting',
+			undefined,
+		])
+		expect(results).toEqual([{ rule: 'no recruiting', suppressed: 1 }])
+	})
+
+	it('suppresses items an include rule does not match', () => {
+		const pipeline = new ItemFilterPipeline([
+			{
+				name: 'vaccines only',
+				action: 'include',
+				patterns: ['/vaccin(e|ation)/i'],
+			},
+		])
+
+		const { items } = pipeline.apply([
+			createDatedItem('Vaccination campaign starts'),
+			createDatedItem('Clinic hours extended'),
+		])
+
+		expect(items.map((item) => item.suppressedBy)).toEqual([
+			undefined,
+			'vaccines only',
+		])
+	})
+
+	it('counts each item for the first rule that suppressed it', () => {
+		const pipeline = new ItemFilterPipeline([
+			{ name: 'no recruiting', action: 'exclude', patterns: ['recruitment'] },
+			{ name: 'no notices', action: 'exclude', patterns: ['notice'] },
+		])
+
+		const { results } = pipeline.apply([
+			createDatedItem('Staff recruitment notice'),
+			createDatedItem('Closure notice'),
+		])
+
+		expect(results).toEqual([
+			{ rule: 'no recruiting', suppressed: 1 },
+			{ rule: 'no notices', suppressed: 1 },
+		])
+	})
+
+	it('leaves items of other sources alone', () => {
+		const pipeline = new ItemFilterPipeline([
+			{
+				name: 'no tenders',
+				action: 'exclude',
+				patterns: ['tender'],
+				sourceIds: ['procurement'],
+			},
+		])
+
+		const { items } = pipeline.apply([createDatedItem('Storage tender')])
+
+		expect(items[0]!.suppressedBy).toBeUndefined()
+	})
+
+	it('lets source rules replace or turn off global rules', () => {
+		const pipeline = new ItemFilterPipeline(
+			[{ name: 'no notices', action: 'exclude', patterns: ['notice'] }],
+			{
+				quiet: [{ name: 'no notices', action: 'exclude', enabled: false }],
+				strict: [
+					{ name: 'no notices', action: 'exclude', patterns: ['closure'] },
+				],
+			}
+		)
+		const createSourceItem = (title: string, sourceId: string): NewsItem =>
+			NewsItem.create(
+				title,
+				`https://${sourceId}.test/1`,
+				undefined,
+				'',
+				sourceId
+			)
+
+		const { items } = pipeline.apply([
+			createSourceItem('Closure notice', 'quiet'),
+			createSourceItem('Opening notice', 'strict'),
+			createSourceItem('Closure notice', 'strict'),
+			createSourceItem('Opening notice', 'other'),
+		])
+
+		expect(items.map((item) => item.suppressedBy)).toEqual([
+			undefined,
+			undefined,
+			'no notices',
+			'no notices',
+		])
+	})
+
+	describe('olderThanDays', () => {
+		const now = new Date('2024-05-06T12:00:00')
+		const pipeline = new ItemFilterPipeline([
+			{ name: 'stale', action: 'exclude', olderThanDays: 30 },
+		])
+		const isSuppressed = (date?: string): boolean =>
+			!!pipeline.apply([createDatedItem('Notice', date)], now).items[0]!
+				.suppressedBy
+
+		it('compares ISO dates', () => {
+			expect(isSuppressed('2024-03-01')).toBe(true)
+			expect(isSuppressed('2024-05-01T09:00:00+08:00')).toBe(false)
+		})
+
+		it.each(['113-03-01', '113/3/1', '113.03.01'])(
+			'reads the Minguo year in %s',
+			(date) => {
+				expect(isSuppressed(date)).toBe(true)
+			}
+		)
+
+		it('keeps recent Minguo dates', () => {
+			// Read as the year 113 AD, this would be suppressed
+			expect(isSuppressed('113-05-01')).toBe(false)
+		})
+
+		it('never matches items without a readable date', () => {
+			expect(isSuppressed(undefined)).toBe(false)
+			expect(isSuppressed('last Tuesday')).toBe(false)
+		})
+	})
+})
+
+describe('diffLines', () => {
+	it('keeps unchanged lines out of the diff', () => {
+		expect(
+			diffLines(
+				'Opening hours\nMonday 9-17\nTuesday 9-17\nClosed on Sunday',
+				'Opening hours\nMonday 9-21\nTuesday 9-17\nClosed on Sunday'
+			)
+		).toEqual([
+			{ type: 'removed', text: 'Monday 9-17' },
+			{ type: 'added', text: 'Monday 9-21' },
+		])
+	})
+
+	it('reports lines added and removed at either end', () => {
+		expect(diffLines('Draft\nBody', 'Body\nUpdated 5 May')).toEqual([
+			{ type: 'removed', text: 'Draft' },
+			{ type: 'added', text: 'Updated 5 May' },
+		])
+	})
+
+	it('leaves out blank lines', () => {
+		expect(diffLines('First\n\nSecond', 'First\nSecond\n   ')).toEqual([])
+	})
+
+	it('compares bodies at the size limit line by line', () => {
+		const lines = Array.from({ length: 1000 }, (_, index) => `Line ${index}`)
+		const after = [...lines.slice(0, 999), 'Last line']
+
+		expect(diffLines(lines.join('\n'), after.join('\n'))).toEqual([
+			{ type: 'removed', text: 'Line 999' },
+			{ type: 'added', text: 'Last line' },
+		])
+	})
+
+	it('shows very long bodies replaced whole', () => {
+		const lines = Array.from({ length: 1001 }, (_, index) => `Line ${index}`)
+		const before = lines.join('\n')
+		const after = [...lines.slice(0, 1000), 'Last line'].join('\n')
+
+		const diff = diffLines(before, after)
+
+		expect(diff).toHaveLength(2002)
+		expect(diff.filter((line) => line.type === 'removed')).toHaveLength(1001)
+		expect(diff[1001]).toEqual({ type: 'added', text: 'Line 0' })
+	})
+})
@@ -1,99 +1,1490 @@
 /**
  * Domain services - Business logic that doesn't belong to entities
  */
-import { NewsItem, CrawlResult, NotificationResult } from './entities'
-import { NewsRepository } from './repositories'
+import {
+	NewsItem,
+	CrawlResult,
+	DiffLine,
+	FilterRuleResult,
+	ITEM_PRIORITIES,
+	ItemChanges,
+	ItemPriority,
+	NotificationResult,
+} from './entities'
+import {
+	DeliveryLogEntry,
+	DeliveryLogRepository,
+	DigestQueueRepository,
+	HeldNotification,
+	HeldNotificationRepository,
+	ItemRevision,
+	NewsRepository,
+	OutboxEntry,
+	OutboxRepository,
+} from './repositories'
+
+export interface CrawlOptions {
+	/**
+	 * Tells paginated crawlers whether every item on a page is already known,
+	 * so they can stop instead of fetching deeper pages
+	 */
+	isKnownPage?: (items: NewsItem[]) => Promise<boolean>
+}
 
 export interface CrawlerService {
-	crawl(): Promise<CrawlResult>
+	readonly sourceId: string
+	// Known items go through fetchDetails again to notice article edits
+	readonly tracksArticleEdits?: boolean
+	crawl(options?: CrawlOptions): Promise<CrawlResult>
+	/**
+	 * Download article pages to fill in item content, items that fail keep their list data
+	 */
+	fetchDetails?(items: NewsItem[]): Promise<NewsItem[]>
 	testConnection(): Promise<boolean>
 }
 
+/**
+ * New items to announce, each channel renders its own message from it
+ */
+export interface NotificationRequest {
+	items: NewsItem[]
+	// First run after deployment, only developers are notified
+	isDevNotification: boolean
+	// Queued items sent together on the digest schedule
+	isDigest?: boolean
+	// Deliver only to these recipients instead of all of them
+	recipients?: string[]
+	crawlResult?: CrawlResult
+}
+
 export interface NotificationService {
-	sendNotification(
-		title: string,
-		message: string,
-		items?: NewsItem[],
-		isDevNotification?: boolean
-	): Promise<NotificationResult>
+	readonly channel: string
+	// Set by channels that deliver to several recipients separately
+	readonly recipients?: string[]
+	sendNotification(request: NotificationRequest): Promise<NotificationResult>
 	testConnection(): Promise<boolean>
 }
 
+/**
+ * Sends one notification to every channel in parallel, a failing channel
+ * does not hold back the others
+ */
+export class NotificationDispatcher {
+	public readonly channels: NotificationService[]
+
+	constructor(channels: NotificationService[]) {
+		this.channels = channels
+	}
+
+	public async dispatch(
+		request: NotificationRequest
+	): Promise<NotificationResult[]> {
+		return await Promise.all(
+			this.channels.map(async (channel) => {
+				try {
+					return await channel.sendNotification(request)
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error ? error.message : String(error)
+					return new NotificationResult(
+						false,
+						channel.channel,
+						'',
+						new Date(),
+						errorMessage
+					)
+				}
+			})
+		)
+	}
+}
+
+/**
+ * One result for several sends of a channel, successful when any send was
+ */
+function combineResults(
+	channel: string,
+	results: NotificationResult[]
+): NotificationResult {
+	if (results.length === 1 && results[0]) {
+		return results[0]
+	}
+
+	const messages = results
+		.filter((result) => result.success)
+		.map((result) => result.message)
+	const errors = results
+		.filter((result) => !result.success)
+		.map((result) => result.error || result.message)
+	if (messages.length === 0) {
+		return new NotificationResult(
+			false,
+			channel,
+			'',
+			new Date(),
+			errors.join('; ')
+		)
+	}
+	const providerMessageIds = results
+		.map((result) => result.providerMessageId)
+		.filter((id): id is string => !!id)
+	return new NotificationResult(
+		true,
+		channel,
+		errors.length > 0
+			? `${messages.join('; ')}. Failed: ${errors.join('; ')}`
+			: messages.join('; '),
+		new Date(),
+		undefined,
+		providerMessageIds.join(', ') || undefined
+	)
+}
+
+/**
+ * Compile a subscription keyword. `/body/flags` is a regular expression,
+ * anything else matches as a case-insensitive substring.
+ */
+export function compileTextPattern(pattern: string): RegExp {
+	const regexMatch = /^\/(.+)\/([a-z]*)$/.exec(pattern)
+	if (regexMatch) {
+		// Stateful flags would make repeated tests skip matches
+		const flags = (regexMatch[2] as string).replace(/[gy]/g, '')
+		return new RegExp(regexMatch[1] as string, flags)
+	}
+	return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'i')
+}
+
+/**
+ * Identifies one notification about an item, updates count separately from
+ * the announcement of the item and from each other
+ */
+function getDeliveryKey(item: NewsItem): string {
+	return `${item.id}#${item.changes?.revision ?? 0}`
+}
+
+/**
+ * Text that keywords and patterns are matched against
+ */
+function getSearchText(item: NewsItem): string {
+	return [item.title, item.contentPreview, item.content].join('\n')
+}
+
+/**
+ * Whether an item has at least the given priority, unclassified items count
+ * as normal
+ */
+function hasPriority(item: NewsItem, minPriority: ItemPriority): boolean {
+	return (
+		ITEM_PRIORITIES.indexOf(item.priority ?? 'normal') >=
+		ITEM_PRIORITIES.indexOf(minPriority)
+	)
+}
+
+/**
+ * Which items a recipient of a channel wants. Sources and keywords are
+ * matched against the title and content; unset filters match everything.
+ */
+export interface Subscription {
+	name: string
+	channel: string
+	// Every recipient of the channel when unset
+	recipients?: string[]
+	sourceIds?: string[]
+	include?: string[]
+	exclude?: string[]
+}
+
+interface CompiledSubscription {
+	subscription: Subscription
+	include: RegExp[]
+	exclude: RegExp[]
+}
+
+/**
+ * Delivers each recipient only the items their subscriptions match.
+ * Recipients without a subscription receive every item.
+ */
+export class SubscriptionNotificationService implements NotificationService {
+	public readonly channel: string
+	public readonly recipients?: string[]
+	private readonly notificationService: NotificationService
+	private readonly subscriptions: CompiledSubscription[]
+
+	constructor(
+		notificationService: NotificationService,
+		subscriptions: Subscription[]
+	) {
+		this.channel = notificationService.channel
+		if (notificationService.recipients) {
+			this.recipients = notificationService.recipients
+		}
+		this.notificationService = notificationService
+		this.subscriptions = subscriptions
+			.filter((subscription) => subscription.channel === this.channel)
+			.map((subscription) => ({
+				subscription,
+				include: (subscription.include || []).map(compileTextPattern),
+				exclude: (subscription.exclude || []).map(compileTextPattern),
+			}))
+	}
+
+	public async sendNotification(
+		request: NotificationRequest
+	): Promise<NotificationResult> {
+		if (request.isDevNotification) {
+			return await this.notificationService.sendNotification(request)
+		}
+
+		const recipients = request.recipients ?? this.recipients
+		if (!recipients) {
+			const items = this.filterItems(request.items, undefined)
+			if (items.length === 0) {
+				return this.createNoMatchResult()
+			}
+			return await this.notificationService.sendNotification({
+				...request,
+				items,
+			})
+		}
+
+		// Recipients with the same subset share one send
+		const groups = new Map<
+			string,
+			{ items: NewsItem[]; recipients: string[] }
+		>()
+		for (const recipient of recipients) {
+			const items = this.filterItems(request.items, recipient)
+			if (items.length === 0) {
+				continue
+			}
+			const key = items.map((item) => item.id).join('\n')
+			const group = groups.get(key) || { items, recipients: [] }
+			group.recipients.push(recipient)
+			groups.set(key, group)
+		}
+		if (groups.size === 0) {
+			return this.createNoMatchResult()
+		}
+
+		const results: NotificationResult[] = []
+		for (const group of groups.values()) {
+			results.push(
+				await this.notificationService.sendNotification({
+					...request,
+					items: group.items,
+					recipients: group.recipients,
+				})
+			)
+		}
+		return combineResults(this.channel, results)
+	}
+
+	public async testConnection(): Promise<boolean> {
+		return await this.notificationService.testConnection()
+	}
+
+	private filterItems(
+		items: NewsItem[],
+		recipient: string | undefined
+	): NewsItem[] {
+		const subscriptions = this.subscriptions.filter(
+			({ subscription }) =>
+				!subscription.recipients ||
+				(recipient !== undefined && subscription.recipients.includes(recipient))
+		)
+		if (subscriptions.length === 0) {
+			return items
+		}
+		return items.filter((item) =>
+			subscriptions.some((subscription) => this.matches(subscription, item))
+		)
+	}
+
+	private matches(compiled: CompiledSubscription, item: NewsItem): boolean {
+		const { subscription, include, exclude } = compiled
+		if (
+			subscription.sourceIds &&
+			!subscription.sourceIds.includes(item.sourceId)
+		) {
+			return false
+		}
+
+		const text = getSearchText(item)
+		if (include.length > 0 && !include.some((pattern) => pattern.test(text))) {
+			return false
+		}
+		return !exclude.some((pattern) => pattern.test(text))
+	}
+
+	private createNoMatchResult(): NotificationResult {
+		return new NotificationResult(
+			true,
+			this.channel,
+			'No items match the subscriptions'
+		)
+	}
+}
+
+/**
+ * Sends a channel only the items at or above a priority, for channels that
+ * are meant for important news only
+ */
+export class PriorityRoutingNotificationService implements NotificationService {
+	public readonly channel: string
+	public readonly recipients?: string[]
+	private readonly notificationService: NotificationService
+	private readonly minPriority: ItemPriority
+
+	constructor(
+		notificationService: NotificationService,
+		minPriority: ItemPriority
+	) {
+		this.channel = notificationService.channel
+		if (notificationService.recipients) {
+			this.recipients = notificationService.recipients
+		}
+		this.notificationService = notificationService
+		this.minPriority = minPriority
+	}
+
+	public async sendNotification(
+		request: NotificationRequest
+	): Promise<NotificationResult> {
+		if (request.isDevNotification) {
+			return await this.notificationService.sendNotification(request)
+		}
+
+		const items = request.items.filter((item) =>
+			hasPriority(item, this.minPriority)
+		)
+		if (items.length === 0) {
+			return new NotificationResult(
+				true,
+				this.channel,
+				`No items with ${this.minPriority} priority or higher`
+			)
+		}
+		return await this.notificationService.sendNotification({
+			...request,
+			items,
+		})
+	}
+
+	public async testConnection(): Promise<boolean> {
+		return await this.notificationService.testConnection()
+	}
+}
+
+export interface OutboxRetryPolicy {
+	maxAttempts: number
+	// Doubles after every failed attempt
+	baseDelaySeconds: number
+}
+
+/**
+ * Writes every delivery to the outbox before sending, so failed deliveries
+ * are retried with exponential backoff and dead-lettered after the last
+ * attempt. Retries of a split message skip the items whose parts already
+ * went out.
+ */
+export class OutboxNotificationService implements NotificationService {
+	public readonly channel: string
+	public readonly recipients?: string[]
+	private readonly notificationService: NotificationService
+	private readonly outbox: OutboxRepository
+	private readonly retryPolicy: OutboxRetryPolicy
+	private readonly deliveryLog: DeliveryLogRepository
+
+	constructor(
+		notificationService: NotificationService,
+		outbox: OutboxRepository,
+		retryPolicy: OutboxRetryPolicy,
+		deliveryLog: DeliveryLogRepository
+	) {
+		this.channel = notificationService.channel
+		if (notificationService.recipients) {
+			this.recipients = notificationService.recipients
+		}
+		this.notificationService = notificationService
+		this.outbox = outbox
+		this.retryPolicy = retryPolicy
+		this.deliveryLog = deliveryLog
+	}
+
+	public async sendNotification(
+		request: NotificationRequest
+	): Promise<NotificationResult> {
+		// Deployment notifications pick their own recipients
+		const recipients = request.isDevNotification
+			? undefined
+			: request.recipients ?? this.recipients
+		// Items are saved as seen only after dispatch, so a run that crashed
+		// mid-send finds them again while their deliveries are still pending
+		const pendingEntries = (await this.outbox.findAll()).filter(
+			(entry) => entry.channel === this.channel && entry.status === 'pending'
+		)
+		const now = new Date()
+		const newEntries: Omit<OutboxEntry, 'id'>[] = []
+		for (const recipient of recipients || [undefined]) {
+			const pendingKeys = new Set(
+				pendingEntries
+					.filter((entry) => entry.recipient === recipient)
+					.flatMap((entry) => entry.items.map(getDeliveryKey))
+			)
+			const items = request.items.filter(
+				(item) => !pendingKeys.has(getDeliveryKey(item))
+			)
+			if (items.length === 0) {
+				continue
+			}
+			const entry: Omit<OutboxEntry, 'id'> = {
+				channel: this.channel,
+				items,
+				isDevNotification: request.isDevNotification,
+				isDigest: request.isDigest ?? false,
+				status: 'pending',
+				attempts: 0,
+				nextAttemptAt: now,
+				createdAt: now,
+			}
+			if (recipient !== undefined) {
+				entry.recipient = recipient
+			}
+			newEntries.push(entry)
+		}
+		if (newEntries.length === 0) {
+			return new NotificationResult(
+				true,
+				this.channel,
+				'Already pending in the outbox'
+			)
+		}
+		const entries = await this.outbox.add(newEntries)
+
+		const results: NotificationResult[] = []
+		for (const entry of entries) {
+			results.push(await this.deliver(entry, request))
+		}
+		return combineResults(this.channel, results)
+	}
+
+	/**
+	 * Retry pending deliveries whose backoff has passed
+	 */
+	public async retryDue(at: Date = new Date()): Promise<NotificationResult[]> {
+		const results: NotificationResult[] = []
+		for (const entry of await this.outbox.findDue(this.channel, at)) {
+			results.push(await this.deliver(entry))
+		}
+		return results
+	}
+
+	public async testConnection(): Promise<boolean> {
+		return await this.notificationService.testConnection()
+	}
+
+	private async deliver(
+		entry: OutboxEntry,
+		originalRequest?: NotificationRequest
+	): Promise<NotificationResult> {
+		const deliveredIds = new Set(entry.deliveredItemIds)
+		const items = entry.items.filter((item) => !deliveredIds.has(item.id))
+		const request: NotificationRequest = {
+			items,
+			isDevNotification: entry.isDevNotification,
+			isDigest: entry.isDigest,
+		}
+		if (entry.recipient !== undefined) {
+			request.recipients = [entry.recipient]
+		}
+		// The crawl summary is only available on the first attempt
+		if (originalRequest?.crawlResult) {
+			request.crawlResult = originalRequest.crawlResult
+		}
+
+		let result: NotificationResult
+		try {
+			result = await this.notificationService.sendNotification(request)
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			result = new NotificationResult(
+				false,
+				this.channel,
+				'',
+				new Date(),
+				errorMessage
+			)
+		}
+		const logEntry: DeliveryLogEntry = {
+			itemIds: items.map((item) => item.id),
+			channel: this.channel,
+			status: result.success ? 'delivered' : 'failed',
+			timestamp: result.timestamp,
+		}
+		if (entry.recipient !== undefined) {
+			logEntry.recipient = entry.recipient
+		}
+		if (result.providerMessageId) {
+			logEntry.providerMessageId = result.providerMessageId
+		}
+
+		if (result.success) {
+			await this.outbox.remove(entry.id)
+			await this.deliveryLog.append(logEntry)
+			return result
+		}
+
+		// Parts that went out before the failure are not sent again
+		const partIds = result.deliveredItemIds || []
+		if (partIds.length > 0) {
+			entry.deliveredItemIds = [...deliveredIds, ...partIds]
+			logEntry.itemIds = logEntry.itemIds.filter((id) => !partIds.includes(id))
+			await this.deliveryLog.append({
+				...logEntry,
+				itemIds: partIds,
+				status: 'delivered',
+			})
+			delete logEntry.providerMessageId
+		}
+
+		entry.attempts++
+		entry.lastError = result.error || result.message
+		logEntry.error = entry.lastError
+		let retryNote: string
+		if (entry.attempts >= this.retryPolicy.maxAttempts) {
+			entry.status = 'dead'
+			logEntry.status = 'dead'
+			retryNote = `dead-lettered after ${entry.attempts} attempts`
+		} else {
+			const delaySeconds =
+				this.retryPolicy.baseDelaySeconds * 2 ** (entry.attempts - 1)
+			entry.nextAttemptAt = new Date(Date.now() + delaySeconds * 1000)
+			retryNote = `attempt ${entry.attempts}/${
+				this.retryPolicy.maxAttempts
+			}, retrying at ${entry.nextAttemptAt.toISOString()}`
+		}
+		await this.outbox.update(entry)
+		await this.deliveryLog.append(logEntry)
+
+		return new NotificationResult(
+			false,
+			this.channel,
+			result.message,
+			result.timestamp,
+			`${entry.lastError} (${retryNote})`
+		)
+	}
+}
+
+/**
+ * Items matching any of these are sent right away instead of waiting for
+ * the digest
+ */
+export interface UrgentRule {
+	// A keyword, or a regular expression written as /pattern/flags
+	titlePattern?: string
+	sourceIds?: string[]
+	minPriority?: ItemPriority
+}
+
+/**
+ * Queues new items for a channel and sends them as one digest on flush,
+ * urgent items and first-run notifications go out immediately. With digest
+ * recipients, each of them has a queue of their own and the channel's other
+ * recipients receive items immediately.
+ */
+export class DigestNotificationService implements NotificationService {
+	public readonly channel: string
+	public readonly recipients?: string[]
+	private readonly notificationService: NotificationService
+	private readonly digestQueue: DigestQueueRepository
+	private readonly urgentTitlePattern?: RegExp
+	private readonly urgentSourceIds: string[]
+	private readonly urgentMinPriority?: ItemPriority
+	// Every recipient shares the channel queue when unset
+	private readonly digestRecipients?: string[]
+
+	constructor(
+		notificationService: NotificationService,
+		digestQueue: DigestQueueRepository,
+		urgentRule: UrgentRule = {},
+		digestRecipients?: string[]
+	) {
+		this.channel = notificationService.channel
+		if (notificationService.recipients) {
+			this.recipients = notificationService.recipients
+		}
+		this.notificationService = notificationService
+		this.digestQueue = digestQueue
+		if (urgentRule.titlePattern) {
+			this.urgentTitlePattern = compileTextPattern(urgentRule.titlePattern)
+		}
+		this.urgentSourceIds = urgentRule.sourceIds || []
+		if (urgentRule.minPriority) {
+			this.urgentMinPriority = urgentRule.minPriority
+		}
+		if (digestRecipients) {
+			this.digestRecipients = digestRecipients
+		}
+	}
+
+	public async sendNotification(
+		request: NotificationRequest
+	): Promise<NotificationResult> {
+		if (request.isDevNotification) {
+			return await this.notificationService.sendNotification(request)
+		}
+
+		const urgentItems = request.items.filter((item) => this.isUrgent(item))
+		const queuedItems = request.items.filter((item) => !this.isUrgent(item))
+		const recipients = request.recipients ?? this.recipients
+		if (!this.digestRecipients || !recipients) {
+			await this.digestQueue.enqueue(this.channel, queuedItems)
+			return await this.sendUrgent(request, urgentItems, queuedItems.length)
+		}
+
+		const digestRecipients = recipients.filter((recipient) =>
+			this.digestRecipients?.includes(recipient)
+		)
+		const otherRecipients = recipients.filter(
+			(recipient) => !digestRecipients.includes(recipient)
+		)
+		for (const recipient of digestRecipients) {
+			await this.digestQueue.enqueue(this.channel, queuedItems, recipient)
+		}
+
+		const results: NotificationResult[] = []
+		if (digestRecipients.length > 0) {
+			results.push(
+				await this.sendUrgent(
+					{ ...request, recipients: digestRecipients },
+					urgentItems,
+					queuedItems.length
+				)
+			)
+		}
+		if (otherRecipients.length > 0) {
+			results.push(
+				await this.notificationService.sendNotification({
+					...request,
+					recipients: otherRecipients,
+				})
+			)
+		}
+		return combineResults(this.channel, results)
+	}
+
+	/**
+	 * Send everything queued as one digest, one per digest recipient,
+	 * undefined when nothing is queued. Items stay queued when sending fails.
+	 */
+	public async flush(): Promise<NotificationResult | undefined> {
+		const results: NotificationResult[] = []
+		for (const recipient of this.digestRecipients || [undefined]) {
+			const items = await this.digestQueue.findQueued(this.channel, recipient)
+			if (items.length === 0) {
+				continue
+			}
+
+			const request: NotificationRequest = {
+				items,
+				isDevNotification: false,
+				isDigest: true,
+			}
+			if (recipient !== undefined) {
+				request.recipients = [recipient]
+			}
+			const result = await this.notificationService.sendNotification(request)
+			if (result.success) {
+				await this.digestQueue.remove(
+					this.channel,
+					items.map((item) => item.id),
+					recipient
+				)
+			}
+			results.push(result)
+		}
+		return results.length > 0
+			? combineResults(this.channel, results)
+			: undefined
+	}
+
+	public async testConnection(): Promise<boolean> {
+		return await this.notificationService.testConnection()
+	}
+
+	private async sendUrgent(
+		request: NotificationRequest,
+		urgentItems: NewsItem[],
+		queuedCount: number
+	): Promise<NotificationResult> {
+		const queuedMessage = `Queued ${queuedCount} items for the next digest`
+		if (urgentItems.length === 0) {
+			return new NotificationResult(true, this.channel, queuedMessage)
+		}
+
+		const result = await this.notificationService.sendNotification({
+			...request,
+			items: urgentItems,
+		})
+		return new NotificationResult(
+			result.success,
+			this.channel,
+			queuedCount > 0 ? `${result.message}; ${queuedMessage}` : result.message,
+			result.timestamp,
+			result.error,
+			result.providerMessageId
+		)
+	}
+
+	private isUrgent(item: NewsItem): boolean {
+		return (
+			this.urgentSourceIds.includes(item.sourceId) ||
+			(this.urgentTitlePattern?.test(item.title) ?? false) ||
+			(this.urgentMinPriority !== undefined &&
+				hasPriority(item, this.urgentMinPriority))
+		)
+	}
+}
+
+/**
+ * Calendar dates in the configured timezone
+ */
+export interface LocalCalendar {
+	/**
+	 * The instant a YYYY-MM-DD date starts at
+	 */
+	getStartOfDay(date: string): Date
+}
+
+/**
+ * Decides whether a channel, or one of its recipients, is in quiet hours
+ */
+export interface QuietHoursPolicy {
+	isQuiet(channel: string, recipient: string | undefined, at: Date): boolean
+}
+
+/**
+ * Holds notifications for recipients in quiet hours and delivers them once
+ * their quiet hours end, optionally merged into one message per recipient
+ */
+export class QuietHoursNotificationService implements NotificationService {
+	public readonly channel: string
+	public readonly recipients?: string[]
+	private readonly notificationService: NotificationService
+	private readonly heldNotifications: HeldNotificationRepository
+	private readonly quietHours: QuietHoursPolicy
+	private readonly merge: boolean
+
+	constructor(
+		notificationService: NotificationService,
+		heldNotifications: HeldNotificationRepository,
+		quietHours: QuietHoursPolicy,
+		merge: boolean
+	) {
+		this.channel = notificationService.channel
+		if (notificationService.recipients) {
+			this.recipients = notificationService.recipients
+		}
+		this.notificationService = notificationService
+		this.heldNotifications = heldNotifications
+		this.quietHours = quietHours
+		this.merge = merge
+	}
+
+	public async sendNotification(
+		request: NotificationRequest
+	): Promise<NotificationResult> {
+		// Deployment notifications go to developers, who expect them right away
+		if (request.isDevNotification) {
+			return await this.notificationService.sendNotification(request)
+		}
+
+		const now = new Date()
+		const recipients = request.recipients ?? this.recipients
+		if (!recipients) {
+			if (!this.quietHours.isQuiet(this.channel, undefined, now)) {
+				return await this.notificationService.sendNotification(request)
+			}
+			await this.hold(request)
+			return new NotificationResult(
+				true,
+				this.channel,
+				'Held until quiet hours end'
+			)
+		}
+
+		const quietRecipients = recipients.filter((recipient) =>
+			this.quietHours.isQuiet(this.channel, recipient, now)
+		)
+		if (quietRecipients.length === 0) {
+			return await this.notificationService.sendNotification(request)
+		}
+		for (const recipient of quietRecipients) {
+			await this.hold(request, recipient)
+		}
+		const heldMessage = `Held for ${quietRecipients.length} recipients until quiet hours end`
+
+		const activeRecipients = recipients.filter(
+			(recipient) => !quietRecipients.includes(recipient)
+		)
+		if (activeRecipients.length === 0) {
+			return new NotificationResult(true, this.channel, heldMessage)
+		}
+
+		const result = await this.notificationService.sendNotification({
+			...request,
+			recipients: activeRecipients,
+		})
+		return new NotificationResult(
+			result.success,
+			this.channel,
+			`${result.message}; ${heldMessage}`,
+			result.timestamp,
+			result.error,
+			result.providerMessageId
+		)
+	}
+
+	/**
+	 * Deliver held notifications whose quiet hours have ended. Notifications
+	 * stay held when sending fails.
+	 */
+	public async releaseDue(
+		at: Date = new Date()
+	): Promise<NotificationResult[]> {
+		const due = (await this.heldNotifications.findHeld(this.channel)).filter(
+			(held) => !this.quietHours.isQuiet(this.channel, held.recipient, at)
+		)
+
+		const batches: HeldNotification[][] = []
+		if (this.merge) {
+			const byRecipient = new Map<string | undefined, HeldNotification[]>()
+			for (const held of due) {
+				const batch = byRecipient.get(held.recipient) || []
+				batch.push(held)
+				byRecipient.set(held.recipient, batch)
+			}
+			batches.push(...byRecipient.values())
+		} else {
+			batches.push(...due.map((held) => [held]))
+		}
+
+		const results: NotificationResult[] = []
+		for (const batch of batches) {
+			const items = new Map<string, NewsItem>()
+			for (const held of batch) {
+				for (const item of held.items) {
+					items.set(item.id, item)
+				}
+			}
+
+			const request: NotificationRequest = {
+				items: Array.from(items.values()),
+				isDevNotification: false,
+				isDigest: batch.every((held) => held.isDigest),
+			}
+			const recipient = batch[0]?.recipient
+			if (recipient !== undefined) {
+				request.recipients = [recipient]
+			}
+
+			const result = await this.notificationService.sendNotification(request)
+			if (result.success) {
+				await this.heldNotifications.remove(batch.map((held) => held.id))
+			}
+			results.push(result)
+		}
+		return results
+	}
+
+	public async testConnection(): Promise<boolean> {
+		return await this.notificationService.testConnection()
+	}
+
+	private async hold(
+		request: NotificationRequest,
+		recipient?: string
+	): Promise<void> {
+		// Items are saved as seen only after dispatch, so a run that crashed
+		// mid-send holds them again unless they are skipped here
+		const heldKeys = new Set(
+			(await this.heldNotifications.findHeld(this.channel))
+				.filter((held) => held.recipient === recipient)
+				.flatMap((held) => held.items.map(getDeliveryKey))
+		)
+		const items = request.items.filter(
+			(item) => !heldKeys.has(getDeliveryKey(item))
+		)
+		if (items.length === 0) {
+			return
+		}
+
+		const held: Omit<HeldNotification, 'id'> = {
+			channel: this.channel,
+			items,
+			isDigest: request.isDigest ?? false,
+			heldAt: new Date(),
+		}
+		if (recipient !== undefined) {
+			held.recipient = recipient
+		}
+		await this.heldNotifications.hold(held)
+	}
+}
+
+/**
+ * Tags items matching any of its patterns with a category, a priority or
+ * both
+ */
+export interface ClassificationRule {
+	name: string
+	category?: string
+	priority?: ItemPriority
+	// Keywords or /pattern/flags
+	patterns: string[]
+	// Limits the rule to these sources
+	sourceIds?: string[]
+}
+
+interface CompiledClassificationRule {
+	rule: ClassificationRule
+	patterns: RegExp[]
+}
+
+/**
+ * Assigns categories and a priority to items from their title and content.
+ * An item gets the category of every matching rule and the highest priority
+ * among them, or the default priority when no rule sets one.
+ */
+export class ItemClassifier {
+	private readonly rules: CompiledClassificationRule[]
+	private readonly defaultPriority: ItemPriority
+
+	constructor(
+		rules: ClassificationRule[] = [],
+		defaultPriority: ItemPriority = 'normal'
+	) {
+		this.rules = rules.map((rule) => ({
+			rule,
+			patterns: rule.patterns.map(compileTextPattern),
+		}))
+		this.defaultPriority = defaultPriority
+	}
+
+	public classify(items: NewsItem[]): NewsItem[] {
+		return items.map((item) => {
+			const text = getSearchText(item)
+			const categories: string[] = []
+			let priority: ItemPriority | undefined
+			for (const { rule, patterns } of this.rules) {
+				if (rule.sourceIds && !rule.sourceIds.includes(item.sourceId)) {
+					continue
+				}
+				if (!patterns.some((pattern) => pattern.test(text))) {
+					continue
+				}
+				if (rule.category && !categories.includes(rule.category)) {
+					categories.push(rule.category)
+				}
+				if (
+					rule.priority &&
+					(!priority ||
+						ITEM_PRIORITIES.indexOf(rule.priority) >
+							ITEM_PRIORITIES.indexOf(priority))
+				) {
+					priority = rule.priority
+				}
+			}
+			return item.withClassification(
+				categories,
+				priority ?? this.defaultPriority
+			)
+		})
+	}
+}
+
+export type FilterAction = 'include' | 'exclude'
+
+/**
+ * Include rules suppress items that do not match them, exclude rules
+ * suppress items that do. A rule matches when every criterion it sets
+ * matches.
+ */
+export interface FilterRule {
+	name: string
+	action: FilterAction
+	// Keywords or /pattern/flags, any of them matches
+	patterns?: string[]
+	// Limits the rule to these sources, other items are left alone
+	sourceIds?: string[]
+	// Items without a readable date never match
+	olderThanDays?: number
+	// A source can set this to false to turn off a global rule
+	enabled?: boolean
+}
+
+interface CompiledFilterRule {
+	rule: FilterRule
+	patterns: RegExp[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Filters new items before notification. Suppressed items are marked with
+ * the first rule that suppressed them rather than dropped.
+ */
+export class ItemFilterPipeline {
+	private readonly rules: FilterRule[]
+	private readonly sourceRules: Record<string, FilterRule[]>
+	private readonly compiledRules = new Map<string, CompiledFilterRule[]>()
+
+	/**
+	 * Source rules override global rules with the same name, and come after
+	 * them otherwise
+	 */
+	constructor(
+		rules: FilterRule[] = [],
+		sourceRules: Record<string, FilterRule[]> = {}
+	) {
+		this.rules = rules
+		this.sourceRules = sourceRules
+	}
+
+	public apply(
+		items: NewsItem[],
+		now: Date = new Date()
+	): { items: NewsItem[]; results: FilterRuleResult[] } {
+		const counts = new Map<string, number>()
+		const filteredItems = items.map((item) => {
+			for (const compiled of this.getRules(item.sourceId)) {
+				const { sourceIds } = compiled.rule
+				if (sourceIds && !sourceIds.includes(item.sourceId)) {
+					continue
+				}
+				const matches = this.matches(compiled, item, now)
+				if (matches === (compiled.rule.action === 'exclude')) {
+					const ruleName = compiled.rule.name
+					counts.set(ruleName, (counts.get(ruleName) || 0) + 1)
+					return item.withSuppression(ruleName)
+				}
+			}
+			return item
+		})
+
+		return {
+			items: filteredItems,
+			results: Array.from(counts, ([rule, suppressed]) => ({
+				rule,
+				suppressed,
+			})),
+		}
+	}
+
+	private getRules(sourceId: string): CompiledFilterRule[] {
+		const cached = this.compiledRules.get(sourceId)
+		if (cached) {
+			return cached
+		}
+
+		const rules = [...this.rules]
+		for (const sourceRule of this.sourceRules[sourceId] || []) {
+			const index = rules.findIndex((rule) => rule.name === sourceRule.name)
+			if (index >= 0) {
+				rules[index] = sourceRule
+			} else {
+				rules.push(sourceRule)
+			}
+		}
+
+		const compiled = rules
+			.filter((rule) => rule.enabled !== false)
+			.map((rule) => ({
+				rule,
+				patterns: (rule.patterns || []).map(compileTextPattern),
+			}))
+		this.compiledRules.set(sourceId, compiled)
+		return compiled
+	}
+
+	private matches(
+		compiled: CompiledFilterRule,
+		item: NewsItem,
+		now: Date
+	): boolean {
+		const { rule, patterns } = compiled
+		if (patterns.length > 0) {
+			const text = getSearchText(item)
+			if (!patterns.some((pattern) => pattern.test(text))) {
+				return false
+			}
+		}
+		if (rule.olderThanDays !== undefined) {
+			const publishedAt = parseItemDate(item.date)
+			if (
+				!publishedAt ||
+				now.getTime() - publishedAt.getTime() <= rule.olderThanDays * DAY_MS
+			) {
+				return false
+			}
+		}
+		return true
+	}
+}
+
+/**
+ * Parse a scraped date, including Minguo (ROC) years such as 113-01-05
+ * used by Taiwanese government sites
+ */
+function parseItemDate(date: string | undefined): Date | undefined {
+	if (!date) {
+		return undefined
+	}
+	const minguoMatch = /^(\d{2,3})[-/.](\d{1,2})[-/.](\d{1,2})$/.exec(
+		date.trim()
+	)
+	const parsed = minguoMatch
+		? new Date(
+				Number(minguoMatch[1]) + 1911,
+				Number(minguoMatch[2]) - 1,
+				Number(minguoMatch[3])
+		  )
+		: new Date(date)
+	return isNaN(parsed.getTime()) ? undefined : parsed
+}
+
+// Longest bodies compared line by line, larger ones are shown replaced whole
+const MAX_DIFF_CELLS = 1000000
+
+/**
+ * Lines removed from and added to a text, from a longest common subsequence
+ * of their lines
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+	const beforeLines = before.split('\n')
+	const afterLines = after.split('\n')
+	const removed = (text: string): DiffLine => ({ type: 'removed', text })
+	const added = (text: string): DiffLine => ({ type: 'added', text })
+	if (beforeLines.length * afterLines.length > MAX_DIFF_CELLS) {
+		return [...beforeLines.map(removed), ...afterLines.map(added)]
+	}
+
+	// lengths[i][j] is the common subsequence length of the suffixes
+	const lengths = Array.from({ length: beforeLines.length + 1 }, () =>
+		new Array<number>(afterLines.length + 1).fill(0)
+	)
+	for (let i = beforeLines.length - 1; i >= 0; i--) {
+		const row = lengths[i] as number[]
+		const nextRow = lengths[i + 1] as number[]
+		for (let j = afterLines.length - 1; j >= 0; j--) {
+			row[j] =
+				beforeLines[i] === afterLines[j]
+					? (nextRow[j + 1] as number) + 1
+					: Math.max(nextRow[j] as number, row[j + 1] as number)
+		}
+	}
+
+	const lines: DiffLine[] = []
+	let i = 0
+	let j = 0
+	while (i < beforeLines.length && j < afterLines.length) {
+		const beforeLine = beforeLines[i] as string
+		const afterLine = afterLines[j] as string
+		if (beforeLine === afterLine) {
+			i++
+			j++
+		} else if (
+			(lengths[i + 1]?.[j] as number) >= (lengths[i]?.[j + 1] as number)
+		) {
+			lines.push(removed(beforeLine))
+			i++
+		} else {
+			lines.push(added(afterLine))
+			j++
+		}
+	}
+	lines.push(...beforeLines.slice(i).map(removed))
+	lines.push(...afterLines.slice(j).map(added))
+	return lines.filter((line) => line.text.trim().length > 0)
+}
+
+/**
+ * Whether the list data of a stored item changed. Items stored before
+ * fingerprints existed adopt the current one.
+ */
+function isListEdited(stored: NewsItem, current: NewsItem): boolean {
+	return (
+		stored.fingerprint !== undefined &&
+		stored.fingerprint !== current.fingerprint
+	)
+}
+
+/**
+ * What differs between the stored and the current version of an item,
+ * undefined when nothing visible changed. Dates and bodies the current
+ * crawl did not get are not compared.
+ */
+function describeChanges(
+	previous: NewsItem,
+	current: NewsItem,
+	revision: number
+): ItemChanges | undefined {
+	const changes: ItemChanges = { revision }
+	if (current.title !== previous.title) {
+		changes.title = { before: previous.title, after: current.title }
+	}
+	if (current.date && current.date !== previous.date) {
+		changes.date = { after: current.date }
+		if (previous.date) {
+			changes.date.before = previous.date
+		}
+	}
+
+	// Article text when both versions have it, the list summary otherwise
+	const [beforeBody, afterBody] =
+		current.content && previous.content
+			? [previous.content, current.content]
+			: [previous.contentPreview, current.contentPreview]
+	if (afterBody && afterBody !== beforeBody) {
+		const body = diffLines(beforeBody, afterBody)
+		if (body.length > 0) {
+			changes.body = body
+		}
+	}
+
+	return changes.title || changes.date || changes.body ? changes : undefined
+}
+
 export class NewsMonitoringService {
-	private readonly crawlerService: CrawlerService
+	private readonly crawlerServices: CrawlerService[]
 	private readonly newsRepository: NewsRepository
-	private readonly notificationService: NotificationService
+	private readonly notificationDispatcher: NotificationDispatcher
+	private readonly filterPipeline: ItemFilterPipeline
+	private readonly classifier: ItemClassifier
 
 	constructor(
-		crawlerService: CrawlerService,
+		crawlerServices: CrawlerService[],
 		newsRepository: NewsRepository,
-		notificationService: NotificationService
+		notificationDispatcher: NotificationDispatcher,
+		filterPipeline: ItemFilterPipeline = new ItemFilterPipeline(),
+		classifier: ItemClassifier = new ItemClassifier()
 	) {
-		this.crawlerService = crawlerService
+		this.crawlerServices = crawlerServices
 		this.newsRepository = newsRepository
-		this.notificationService = notificationService
+		this.notificationDispatcher = notificationDispatcher
+		this.filterPipeline = filterPipeline
+		this.classifier = classifier
 	}
 
 	/**
-	 * Main business logic for news monitoring
+	 * Main business logic for news monitoring, limited to the given sources
+	 * when ids are passed
 	 */
-	public async monitorNews(): Promise<CrawlResult> {
+	public async monitorNews(sourceIds?: string[]): Promise<CrawlResult> {
+		const startTime = Date.now()
+
 		// Check if this is first run after deployment
 		const isFirstRun = await this.newsRepository.isFirstRunAfterDeployment()
 
-		// Perform crawling
-		const result = await this.crawlerService.crawl()
-		// Note: isFirstRun is set in the constructor, we can't modify it here
-		// We'll handle this in the use case layer
+		// Crawl every source, one failing source does not stop the others
+		const crawlOptions: CrawlOptions = {
+			isKnownPage: async (pageItems) =>
+				(await this.newsRepository.findNewItems(pageItems)).length === 0,
+		}
+		const sourceResults: CrawlResult[] = []
+		const crawlerServices = sourceIds
+			? this.crawlerServices.filter((crawlerService) =>
+					sourceIds.includes(crawlerService.sourceId)
+			  )
+			: this.crawlerServices
+		for (const crawlerService of crawlerServices) {
+			sourceResults.push(await crawlerService.crawl(crawlOptions))
+		}
+
+		const items: NewsItem[] = []
+		const errors: string[] = []
+		const failedSourceIds = new Set<string>()
+		for (const sourceResult of sourceResults) {
+			const sourceId = sourceResult.sourceId || ''
+			if (sourceResult.success) {
+				items.push(...sourceResult.items)
+			} else {
+				failedSourceIds.add(sourceId)
+			}
+			errors.push(
+				...sourceResult.errors.map((error) => `[${sourceId}] ${error}`)
+			)
+		}
+
+		const success = failedSourceIds.size < sourceResults.length
+		const result = new CrawlResult(
+			success,
+			items,
+			[],
+			errors,
+			Date.now() - startTime,
+			new Date(),
+			isFirstRun,
+			undefined,
+			sourceResults
+		)
 
 		if (!result.success) {
 			return result
 		}
 
-		// Find new items
-		const newItems = await this.newsRepository.findNewItems(result.items)
+		// Find new and edited items, fetch their article pages, classify them
+		// and run the filters
+		const storedItems = await this.newsRepository.findStored(result.items)
+		const trackingSourceIds = new Set(
+			this.crawlerServices
+				.filter((crawlerService) => crawlerService.tracksArticleEdits)
+				.map((crawlerService) => crawlerService.sourceId)
+		)
+		const candidates = result.items.filter((item) => {
+			const stored = storedItems.get(item.id)
+			return (
+				!stored ||
+				isListEdited(stored, item) ||
+				trackingSourceIds.has(item.sourceId)
+			)
+		})
+		const fetchedItems = await this.fetchDetails(candidates)
+		// Rechecked articles only count as edited when their text changed
+		const changedItems = fetchedItems.filter((item) => {
+			const stored = storedItems.get(item.id)
+			return (
+				!stored ||
+				isListEdited(stored, item) ||
+				(!!item.content && !!stored.content && item.content !== stored.content)
+			)
+		})
+		const filtered = this.filterPipeline.apply(
+			this.classifier.classify(changedItems)
+		)
+		result.filterResults = filtered.results
+		const detailedItems = new Map(
+			[...fetchedItems, ...filtered.items].map((item) => [item.id, item])
+		)
+		result.items.forEach((item, index) => {
+			result.items[index] = detailedItems.get(item.id) || item
+		})
 
 		// Update result with new items
+		const newItems = filtered.items.filter((item) => !storedItems.has(item.id))
 		result.newItems = newItems
-
-		// Save all items to repository
-		if (result.items.length > 0) {
-			await this.newsRepository.save(result.items)
+		for (const sourceResult of sourceResults) {
+			sourceResult.newItems = newItems.filter(
+				(item) => item.sourceId === sourceResult.sourceId
+			)
 		}
+		const updates = await this.describeUpdates(
+			filtered.items.filter((item) => storedItems.has(item.id)),
+			storedItems
+		)
+		result.updatedItems = updates.items
 
-		// Send notification if there are new items
-		if (newItems.length > 0 && this.notificationService) {
-			let title: string
-			let message: string
-			let isDevNotification: boolean
+		// Send notification if there are new items, first run goes to developers only
+		const notifiedItems = newItems.filter((item) => !item.suppressedBy)
+		if (notifiedItems.length > 0) {
+			result.notificationResults = await this.notificationDispatcher.dispatch({
+				items: notifiedItems,
+				isDevNotification: isFirstRun,
+				crawlResult: result,
+			})
+		}
 
-			if (isFirstRun) {
-				// First run after deployment - send to dev only
-				title = `[First run after deployment] News update - Found ${newItems.length} new messages`
-				message = `First execution after system redeployment, found ${newItems.length} new messages. This is post-deployment initialization, sent only to developers.`
-				isDevNotification = true
-			} else {
-				// Normal run - send to all recipients
-				title = `💫 News update - Found ${newItems.length} new messages`
-				message = `Monitoring system found ${newItems.length} new messages.`
-				isDevNotification = false
-			}
-
-			const notificationResult =
-				await this.notificationService.sendNotification(
-					title,
-					message,
-					newItems,
-					isDevNotification
-				)
+		// Edits are announced separately, and not to developers on a first run
+		const notifiedUpdates = result.updatedItems.filter(
+			(item) => !item.suppressedBy
+		)
+		if (notifiedUpdates.length > 0 && !isFirstRun) {
+			result.notificationResults.push(
+				...(await this.notificationDispatcher.dispatch({
+					items: notifiedUpdates,
+					isDevNotification: false,
+					crawlResult: result,
+				}))
+			)
+		}
 
+		for (const notificationResult of result.notificationResults) {
 			if (!notificationResult.success) {
 				result.errors.push(
-					`Notification sending failed: ${notificationResult.error}`
+					`Notification sending failed (${notificationResult.channel}): ${notificationResult.error}`
 				)
 			}
 		}
 
+		// Save all items once their deliveries are in the outbox, so a crash
+		// before this point finds them again instead of never announcing them
+		await this.newsRepository.addRevisions(updates.revisions)
+		if (result.items.length > 0) {
+			await this.newsRepository.save(result.items)
+		}
+
 		return result
 	}
+
+	/**
+	 * Return the edited items with their changes, and the stored version of
+	 * each as a revision to record. Items whose edit is not visible, such as
+	 * a changed summary the article text overrides, are left out.
+	 */
+	private async describeUpdates(
+		items: NewsItem[],
+		storedItems: Map<string, NewsItem>
+	): Promise<{ items: NewsItem[]; revisions: ItemRevision[] }> {
+		const revisions: ItemRevision[] = []
+		const updatedItems: NewsItem[] = []
+		const now = new Date()
+		for (const item of items) {
+			const stored = storedItems.get(item.id)
+			if (!stored) continue
+
+			const revision =
+				(await this.newsRepository.findRevisions(item.id)).length + 1
+			const changes = describeChanges(stored, item, revision + 1)
+			if (!changes) continue
+
+			const previousVersion: ItemRevision = {
+				itemId: item.id,
+				revision,
+				title: stored.title,
+				contentPreview: stored.contentPreview,
+				content: stored.content,
+				replacedAt: now,
+			}
+			if (stored.date) previousVersion.date = stored.date
+			if (stored.fingerprint) previousVersion.fingerprint = stored.fingerprint
+			revisions.push(previousVersion)
+
+			// A suppressed item stays suppressed after an edit
+			const updatedItem = item.withChanges(changes)
+			updatedItems.push(
+				stored.suppressedBy && !updatedItem.suppressedBy
+					? updatedItem.withSuppression(stored.suppressedBy)
+					: updatedItem
+			)
+		}
+		return { items: updatedItems, revisions }
+	}
+
+	private async fetchDetails(newItems: NewsItem[]): Promise<NewsItem[]> {
+		const detailedItems = new Map<string, NewsItem>()
+		for (const crawlerService of this.crawlerServices) {
+			const sourceItems = newItems.filter(
+				(item) => item.sourceId === crawlerService.sourceId
+			)
+			if (sourceItems.length === 0 || !crawlerService.fetchDetails) {
+				continue
+			}
+			for (const item of await crawlerService.fetchDetails(sourceItems)) {
+				detailedItems.set(item.id, item)
+			}
+		}
+		return newItems.map((item) => detailedItems.get(item.id) || item)
+	}
 }
@@ -4,10 +4,217 @@
 import * as fs from 'fs'
 import * as path from 'path'
 import { config } from 'dotenv'
+import * as cron from 'node-cron'
 import {
 	AppConfigDTO,
+	ChannelsConfigDTO,
+	ChatWebhookConfigDTO,
+	ClassificationConfigDTO,
+	ClassificationRuleDTO,
+	CrawlerConfigDTO,
 	DeploymentNotificationConfigDTO,
+	DetailFetchConfigDTO,
+	DigestConfigDTO,
+	ExtractionRulesDTO,
+	FieldRuleDTO,
+	FilterAction,
+	FilterRuleDTO,
+	ItemPriority,
+	JsonApiConfigDTO,
+	OutboxConfigDTO,
+	PaginationConfigDTO,
+	PriorityRouteDTO,
+	QuietHoursConfigDTO,
+	QuietHoursRuleDTO,
+	ScheduleRuleDTO,
+	ServerConfigDTO,
+	SourceConfigDTO,
+	SourceType,
+	StorageBackend,
+	SubscriptionDTO,
+	TelegramConfigDTO,
+	UrgentRuleDTO,
+	WebhookConfigDTO,
+	Weekday,
 } from '../application/dto'
+import { DEFAULT_SOURCE_ID, ITEM_PRIORITIES } from '../domain/entities'
+import { compileTextPattern } from '../domain/services'
+import { WEEKDAYS, parseTimeRange } from './schedule'
+
+interface RawFieldRule {
+	selector?: string
+	attribute?: string
+	pattern?: string
+	replacement?: string
+	searchAncestors?: number
+}
+
+interface RawExtractionRules {
+	itemSelector?: string | string[]
+	title?: RawFieldRule
+	link?: RawFieldRule
+	date?: RawFieldRule
+	summary?: RawFieldRule
+	minTitleLength?: number
+	[key: string]: unknown
+}
+
+const SOURCE_TYPES: SourceType[] = ['html', 'feed', 'json']
+
+const STORAGE_BACKENDS: StorageBackend[] = ['json', 'sqlite']
+
+const FILTER_ACTIONS: FilterAction[] = ['include', 'exclude']
+
+const NOTIFICATION_CHANNELS = [
+	'email',
+	'slack',
+	'teams',
+	'discord',
+	'webhook',
+	'telegram',
+]
+
+/**
+ * Extraction used by sources without their own rules (hpa.gov.tw list pages)
+ */
+const DEFAULT_EXTRACTION_RULES: ExtractionRulesDTO = {
+	itemSelectors: [
+		'a[href*="Pages/Detail.aspx"]',
+		'a[href*="topic"]',
+		'.news-item a',
+		'.topic-item a',
+		'li a[href*="Detail.aspx"]',
+		'div a[href*="Detail.aspx"]',
+	],
+	title: {},
+	link: { attribute: 'href' },
+	date: {
+		selector: 'span[class*="date" i], div[class*="date" i]',
+		searchAncestors: 3,
+	},
+	minTitleLength: 5,
+}
+
+interface RawPaginationConfig {
+	nextSelector?: string
+	urlTemplate?: string
+	firstPage?: number
+	maxPages?: number
+	[key: string]: unknown
+}
+
+interface RawDetailFetchConfig {
+	enabled?: boolean
+	contentSelector?: string
+	concurrency?: number
+	delayMs?: number
+	maxContentLength?: number
+	trackEdits?: boolean
+}
+
+interface RawJsonApiConfig {
+	itemsPath?: string
+	fields?: {
+		id?: string
+		title?: string
+		link?: string
+		date?: string
+		summary?: string
+		[key: string]: unknown
+	}
+	linkTemplate?: string
+	pagination?: {
+		type?: string
+		param?: string
+		start?: number
+		pageSize?: number
+		sizeParam?: string
+		maxPages?: number
+		[key: string]: unknown
+	}
+	[key: string]: unknown
+}
+
+interface RawScheduleRule {
+	name?: string
+	timeRange?: string
+	intervalMinutes?: number
+	days?: string[]
+	[key: string]: unknown
+}
+
+interface RawChatWebhookConfig {
+	enabled?: boolean
+	webhookUrl?: string
+	[key: string]: unknown
+}
+
+interface RawWebhookConfig {
+	enabled?: boolean
+	urls?: string[]
+	headers?: Record<string, string>
+	secret?: string
+	timeoutSeconds?: number
+	maxRetries?: number
+	[key: string]: unknown
+}
+
+interface RawTelegramConfig {
+	enabled?: boolean
+	botToken?: string
+	chatIds?: Array<string | number>
+	[key: string]: unknown
+}
+
+interface RawQuietHoursRule {
+	name?: string
+	timeRange?: string
+	days?: string[]
+	holidays?: string[]
+	channels?: string[]
+	recipients?: Array<string | number>
+	[key: string]: unknown
+}
+
+interface RawSubscription {
+	name?: string
+	channel?: string
+	recipients?: Array<string | number>
+	sources?: string[]
+	include?: string[]
+	exclude?: string[]
+	[key: string]: unknown
+}
+
+interface RawFilterRule {
+	name?: string
+	action?: string
+	patterns?: string[]
+	sources?: string[]
+	olderThanDays?: number
+	enabled?: boolean
+	[key: string]: unknown
+}
+
+interface RawClassificationRule {
+	name?: string
+	category?: string
+	priority?: string
+	patterns?: string[]
+	sources?: string[]
+	[key: string]: unknown
+}
+
+interface RawDigestConfig {
+	schedule?: string
+	recipients?: Array<string | number>
+	urgent?: {
+		titlePattern?: string
+		sources?: string[]
+		minPriority?: string
+	}
+	[key: string]: unknown
+}
 
 interface RawConfig {
 	timezone: string
@@ -17,11 +224,44 @@ interface RawConfig {
 		maxRetries?: number
 		userAgents?: string[]
 	}
+	sources?: Array<{
+		id?: string
+		name?: string
+		type?: string
+		url?: string
+		timeoutSeconds?: number
+		maxRetries?: number
+		userAgents?: string[]
+		extraction?: RawExtractionRules
+		pagination?: RawPaginationConfig
+		api?: RawJsonApiConfig
+		detail?: RawDetailFetchConfig
+		schedule?: string
+		filters?: RawFilterRule[]
+		identityPattern?: string
+	}>
 	storage?: {
+		backend?: string
 		cacheDir?: string
 		cleanupIntervalDays?: number
 	}
 	notifications?: {
+		slack?: RawChatWebhookConfig
+		teams?: RawChatWebhookConfig
+		discord?: RawChatWebhookConfig
+		webhook?: RawWebhookConfig
+		telegram?: RawTelegramConfig
+		digest?: Record<string, RawDigestConfig>
+		quietHours?: {
+			merge?: boolean
+			rules?: RawQuietHoursRule[]
+		}
+		subscriptions?: RawSubscription[]
+		routing?: Record<string, { minPriority?: string }>
+		outbox?: {
+			maxAttempts?: number
+			baseDelaySeconds?: number
+		}
 		email?: {
 			enabled?: boolean
 			smtpServer?: string
@@ -36,21 +276,25 @@ interface RawConfig {
 			}
 		}
 	}
+	templates?: {
+		dir?: string
+	}
+	filters?: RawFilterRule[]
+	classification?: {
+		defaultPriority?: string
+		rules?: RawClassificationRule[]
+	}
 	scheduler?: {
 		enabled?: boolean
 		intervalHours?: number
 		startImmediately?: boolean
-		rules?: Array<{
-			name: string
-			timeRange: string
-			intervalMinutes: number
-			days: string[]
-		}>
+		rules?: RawScheduleRule[]
 	}
 	server?: {
 		healthCheckPort?: number
 		healthCheckHost?: string
 		pidFile?: string
+		deliveriesToken?: string
 	}
 	[key: string]: unknown
 }
@@ -149,6 +393,93 @@ export class ConfigManager {
 			)
 		}
 
+		// Slack configuration overrides
+		if (process.env['SLACK_WEBHOOK_URL']) {
+			this.setNestedValue(
+				'notifications.slack.webhookUrl',
+				process.env['SLACK_WEBHOOK_URL']
+			)
+		}
+		if (process.env['SLACK_ENABLED']) {
+			this.setNestedValue(
+				'notifications.slack.enabled',
+				process.env['SLACK_ENABLED'].toLowerCase() === 'true'
+			)
+		}
+
+		// Webhook configuration overrides
+		if (process.env['WEBHOOK_URLS']) {
+			const urls = process.env['WEBHOOK_URLS']
+				.split(',')
+				.map((url) => url.trim())
+			this.setNestedValue('notifications.webhook.urls', urls)
+		}
+		if (process.env['WEBHOOK_SECRET']) {
+			this.setNestedValue(
+				'notifications.webhook.secret',
+				process.env['WEBHOOK_SECRET']
+			)
+		}
+		if (process.env['WEBHOOK_ENABLED']) {
+			this.setNestedValue(
+				'notifications.webhook.enabled',
+				process.env['WEBHOOK_ENABLED'].toLowerCase() === 'true'
+			)
+		}
+
+		// Teams configuration overrides
+		if (process.env['TEAMS_WEBHOOK_URL']) {
+			this.setNestedValue(
+				'notifications.teams.webhookUrl',
+				process.env['TEAMS_WEBHOOK_URL']
+			)
+		}
+		if (process.env['TEAMS_ENABLED']) {
+			this.setNestedValue(
+				'notifications.teams.enabled',
+				process.env['TEAMS_ENABLED'].toLowerCase() === 'true'
+			)
+		}
+
+		// Discord configuration overrides
+		if (process.env['DISCORD_WEBHOOK_URL']) {
+			this.setNestedValue(
+				'notifications.discord.webhookUrl',
+				process.env['DISCORD_WEBHOOK_URL']
+			)
+		}
+		if (process.env['DISCORD_ENABLED']) {
+			this.setNestedValue(
+				'notifications.discord.enabled',
+				process.env['DISCORD_ENABLED'].toLowerCase() === 'true'
+			)
+		}
+
+		// Telegram configuration overrides
+		if (process.env['TELEGRAM_BOT_TOKEN']) {
+			this.setNestedValue(
+				'notifications.telegram.botToken',
+				process.env['TELEGRAM_BOT_TOKEN']
+			)
+		}
+		if (process.env['TELEGRAM_CHAT_IDS']) {
+			const chatIds = process.env['TELEGRAM_CHAT_IDS']
+				.split(',')
+				.map((chatId) => chatId.trim())
+			this.setNestedValue('notifications.telegram.chatIds', chatIds)
+		}
+		if (process.env['TELEGRAM_ENABLED']) {
+			this.setNestedValue(
+				'notifications.telegram.enabled',
+				process.env['TELEGRAM_ENABLED'].toLowerCase() === 'true'
+			)
+		}
+
+		// Storage configuration overrides
+		if (process.env['STORAGE_BACKEND']) {
+			this.setNestedValue('storage.backend', process.env['STORAGE_BACKEND'])
+		}
+
 		// Schedule configuration overrides
 		if (process.env['SCHEDULER_ENABLED']) {
 			this.setNestedValue(
@@ -173,6 +504,12 @@ export class ConfigManager {
 		if (process.env['HOST']) {
 			this.setNestedValue('server.healthCheckHost', process.env['HOST'])
 		}
+		if (process.env['DELIVERIES_TOKEN']) {
+			this.setNestedValue(
+				'server.deliveriesToken',
+				process.env['DELIVERIES_TOKEN']
+			)
+		}
 	}
 
 	private setNestedValue(keyPath: string, value: unknown): void {
@@ -200,33 +537,66 @@ export class ConfigManager {
 		const scheduleConfig = this.config.scheduler || {}
 		const serverConfig = this.config.server || {}
 
+		const crawler: CrawlerConfigDTO = {
+			timeoutSeconds: this.getRequiredConfig(
+				crawlerConfig,
+				'timeoutSeconds',
+				'crawler.timeoutSeconds'
+			) as number,
+			maxRetries: this.getRequiredConfig(
+				crawlerConfig,
+				'maxRetries',
+				'crawler.maxRetries'
+			) as number,
+			userAgents: this.getRequiredConfig(
+				crawlerConfig,
+				'userAgents',
+				'crawler.userAgents'
+			) as string[],
+		}
+
+		const backend = (this.config.storage?.backend ?? 'json') as StorageBackend
+		if (!STORAGE_BACKENDS.includes(backend)) {
+			throw new Error(
+				`Invalid configuration 'storage.backend': '${backend}'. Available backends: ${STORAGE_BACKENDS.join(
+					', '
+				)}`
+			)
+		}
+
+		const sources = this.buildSourcesConfig(crawler)
+
+		const server: ServerConfigDTO = {
+			healthCheckPort: this.getRequiredConfig(
+				serverConfig,
+				'healthCheckPort',
+				'server.healthCheckPort'
+			) as number,
+			healthCheckHost: this.getRequiredConfig(
+				serverConfig,
+				'healthCheckHost',
+				'server.healthCheckHost'
+			) as string,
+			pidFile: this.getRequiredConfig(
+				serverConfig,
+				'pidFile',
+				'server.pidFile'
+			) as string,
+		}
+		if (serverConfig.deliveriesToken) {
+			server.deliveriesToken = serverConfig.deliveriesToken
+		}
+
 		return {
 			timezone: this.getRequiredConfig(
 				this.config,
 				'timezone',
 				'timezone'
 			) as string,
-			crawler: {
-				targetUrl: this.getRequiredConfig(
-					crawlerConfig,
-					'targetUrl',
-					'crawler.targetUrl'
-				) as string,
-				timeoutSeconds: this.getRequiredConfig(
-					crawlerConfig,
-					'timeoutSeconds',
-					'crawler.timeoutSeconds'
-				) as number,
-				maxRetries: this.getRequiredConfig(
-					crawlerConfig,
-					'maxRetries',
-					'crawler.maxRetries'
-				) as number,
-				userAgents: this.getRequiredConfig(
-					crawlerConfig,
-					'userAgents',
-					'crawler.userAgents'
-				) as string[],
+			crawler,
+			sources,
+			storage: {
+				backend,
 				cacheDir: this.getRequiredConfig(
 					this.config.storage || {},
 					'cacheDir',
@@ -272,6 +642,17 @@ export class ConfigManager {
 				deploymentNotification:
 					this.getDeploymentNotificationConfig(notificationConfig),
 			},
+			channels: this.buildChannelsConfig(),
+			digests: this.buildDigestsConfig(),
+			quietHours: this.buildQuietHoursConfig(),
+			subscriptions: this.buildSubscriptions(sources),
+			outbox: this.buildOutboxConfig(),
+			filters: this.buildFilterRules(this.config.filters || [], 'filters'),
+			classification: this.buildClassificationConfig(),
+			priorityRoutes: this.buildPriorityRoutes(),
+			templates: {
+				dir: this.config.templates?.dir ?? 'templates',
+			},
 			schedule: {
 				enabled: this.getRequiredConfig(
 					scheduleConfig,
@@ -288,24 +669,9 @@ export class ConfigManager {
 					'startImmediately',
 					'scheduler.startImmediately'
 				) as boolean,
+				rules: this.buildScheduleRules(scheduleConfig.rules || []),
 			},
-			server: {
-				healthCheckPort: this.getRequiredConfig(
-					serverConfig,
-					'healthCheckPort',
-					'server.healthCheckPort'
-				) as number,
-				healthCheckHost: this.getRequiredConfig(
-					serverConfig,
-					'healthCheckHost',
-					'server.healthCheckHost'
-				) as string,
-				pidFile: this.getRequiredConfig(
-					serverConfig,
-					'pidFile',
-					'server.pidFile'
-				) as string,
-			},
+			server,
 		}
 	}
 
@@ -313,6 +679,10 @@ export class ConfigManager {
 		return this.config.crawler || {}
 	}
 
+	public getSourcesConfig(): NonNullable<RawConfig['sources']> {
+		return this.config.sources || []
+	}
+
 	public getNotificationConfig(): RawConfig['notifications'] {
 		return this.config.notifications || {}
 	}
@@ -356,6 +726,838 @@ export class ConfigManager {
 		return value
 	}
 
+	private buildSourcesConfig(crawler: CrawlerConfigDTO): SourceConfigDTO[] {
+		const rawSources = this.config.sources
+
+		// Legacy single-target configuration
+		if (rawSources === undefined) {
+			const targetUrl = this.getRequiredConfig(
+				this.config.crawler || {},
+				'targetUrl',
+				'sources'
+			) as string
+			return [
+				{
+					id: DEFAULT_SOURCE_ID,
+					name: new URL(targetUrl).hostname,
+					type: 'html',
+					url: targetUrl,
+					timeoutSeconds: crawler.timeoutSeconds,
+					maxRetries: crawler.maxRetries,
+					userAgents: crawler.userAgents,
+					extraction: DEFAULT_EXTRACTION_RULES,
+				},
+			]
+		}
+
+		this.getRequiredConfig(this.config, 'sources', 'sources')
+
+		const sources: SourceConfigDTO[] = []
+		rawSources.forEach((rawSource, index) => {
+			const configPath = `sources[${index}]`
+			const id = this.getRequiredConfig(
+				rawSource,
+				'id',
+				`${configPath}.id`
+			) as string
+			if (sources.some((source) => source.id === id)) {
+				throw new Error(
+					`Duplicate source id '${id}' in configuration '${configPath}.id'`
+				)
+			}
+
+			const type = (rawSource.type ?? 'html') as SourceType
+			if (!SOURCE_TYPES.includes(type)) {
+				throw new Error(
+					`Invalid configuration '${configPath}.type': '${type}'. Available types: ${SOURCE_TYPES.join(
+						', '
+					)}`
+				)
+			}
+
+			const source: SourceConfigDTO = {
+				id,
+				name: this.getRequiredConfig(
+					rawSource,
+					'name',
+					`${configPath}.name`
+				) as string,
+				type,
+				url: this.getRequiredConfig(
+					rawSource,
+					'url',
+					`${configPath}.url`
+				) as string,
+				timeoutSeconds: rawSource.timeoutSeconds ?? crawler.timeoutSeconds,
+				maxRetries: rawSource.maxRetries ?? crawler.maxRetries,
+				userAgents: rawSource.userAgents ?? crawler.userAgents,
+				extraction: rawSource.extraction
+					? this.buildExtractionRules(
+							rawSource.extraction,
+							`${configPath}.extraction`
+					  )
+					: DEFAULT_EXTRACTION_RULES,
+			}
+			if (rawSource.pagination) {
+				source.pagination = this.buildPaginationConfig(
+					rawSource.pagination,
+					`${configPath}.pagination`
+				)
+			}
+			if (rawSource.detail && rawSource.detail.enabled !== false) {
+				source.detail = this.buildDetailFetchConfig(
+					rawSource.detail,
+					`${configPath}.detail`
+				)
+			}
+			if (rawSource.schedule !== undefined) {
+				if (!cron.validate(rawSource.schedule)) {
+					throw new Error(
+						`Invalid cron expression for source '${id}' in configuration '${configPath}.schedule': '${rawSource.schedule}'`
+					)
+				}
+				source.schedule = rawSource.schedule
+			}
+			if (rawSource.identityPattern) {
+				try {
+					new RegExp(rawSource.identityPattern)
+				} catch (error) {
+					throw new Error(
+						`Invalid regular expression in configuration '${configPath}.identityPattern': ${error}`
+					)
+				}
+				source.identityPattern = rawSource.identityPattern
+			}
+			if (rawSource.filters) {
+				source.filters = this.buildFilterRules(
+					rawSource.filters,
+					`${configPath}.filters`
+				)
+			}
+			if (type === 'json') {
+				source.api = this.buildJsonApiConfig(
+					rawSource.api || {},
+					`${configPath}.api`
+				)
+			}
+			sources.push(source)
+		})
+
+		return sources
+	}
+
+	private buildPaginationConfig(
+		rawPagination: RawPaginationConfig,
+		configPath: string
+	): PaginationConfigDTO {
+		const { nextSelector, urlTemplate } = rawPagination
+		if ((nextSelector === undefined) === (urlTemplate === undefined)) {
+			throw new Error(
+				`Configuration '${configPath}' needs exactly one of 'nextSelector' or 'urlTemplate'`
+			)
+		}
+		if (urlTemplate !== undefined && !urlTemplate.includes('{page}')) {
+			throw new Error(
+				`Configuration '${configPath}.urlTemplate' must contain a {page} placeholder`
+			)
+		}
+
+		const pagination: PaginationConfigDTO = {
+			firstPage: rawPagination.firstPage ?? 1,
+			maxPages: this.getRequiredConfig(
+				rawPagination,
+				'maxPages',
+				`${configPath}.maxPages`
+			) as number,
+		}
+		if (nextSelector !== undefined) pagination.nextSelector = nextSelector
+		if (urlTemplate !== undefined) pagination.urlTemplate = urlTemplate
+		return pagination
+	}
+
+	private buildDetailFetchConfig(
+		rawDetail: RawDetailFetchConfig,
+		configPath: string
+	): DetailFetchConfigDTO {
+		const detail: DetailFetchConfigDTO = {
+			concurrency: rawDetail.concurrency ?? 2,
+			delayMs: rawDetail.delayMs ?? 1000,
+			maxContentLength: rawDetail.maxContentLength ?? 20000,
+			trackEdits: rawDetail.trackEdits ?? false,
+		}
+		if (detail.concurrency < 1) {
+			throw new Error(
+				`Configuration '${configPath}.concurrency' must be at least 1`
+			)
+		}
+		if (rawDetail.contentSelector !== undefined) {
+			detail.contentSelector = rawDetail.contentSelector
+		}
+		return detail
+	}
+
+	private buildJsonApiConfig(
+		rawApi: RawJsonApiConfig,
+		configPath: string
+	): JsonApiConfigDTO {
+		const fields = rawApi.fields || {}
+		const api: JsonApiConfigDTO = {
+			itemsPath: rawApi.itemsPath ?? '',
+			fields: {
+				title: this.getRequiredConfig(
+					fields,
+					'title',
+					`${configPath}.fields.title`
+				) as string,
+			},
+		}
+		if (fields.id !== undefined) api.fields.id = fields.id
+		if (fields.link !== undefined) api.fields.link = fields.link
+		if (fields.date !== undefined) api.fields.date = fields.date
+		if (fields.summary !== undefined) api.fields.summary = fields.summary
+		if (rawApi.linkTemplate !== undefined) {
+			api.linkTemplate = rawApi.linkTemplate
+		}
+		if (api.fields.link === undefined && api.linkTemplate === undefined) {
+			throw new Error(
+				`Required configuration '${configPath}.fields.link' or '${configPath}.linkTemplate' is missing`
+			)
+		}
+
+		const rawPagination = rawApi.pagination
+		if (rawPagination) {
+			const paginationPath = `${configPath}.pagination`
+			const type = rawPagination.type ?? 'page'
+			if (type !== 'page' && type !== 'offset') {
+				throw new Error(
+					`Invalid configuration '${paginationPath}.type': '${type}'. Available types: page, offset`
+				)
+			}
+			api.pagination = {
+				type,
+				param: this.getRequiredConfig(
+					rawPagination,
+					'param',
+					`${paginationPath}.param`
+				) as string,
+				start: rawPagination.start ?? (type === 'page' ? 1 : 0),
+				pageSize:
+					type === 'offset'
+						? (this.getRequiredConfig(
+								rawPagination,
+								'pageSize',
+								`${paginationPath}.pageSize`
+						  ) as number)
+						: rawPagination.pageSize ?? 0,
+				maxPages: rawPagination.maxPages ?? 1,
+			}
+			if (rawPagination.sizeParam !== undefined) {
+				api.pagination.sizeParam = rawPagination.sizeParam
+			}
+		}
+
+		return api
+	}
+
+	private buildExtractionRules(
+		rawRules: RawExtractionRules,
+		configPath: string
+	): ExtractionRulesDTO {
+		const itemSelector = this.getRequiredConfig(
+			rawRules,
+			'itemSelector',
+			`${configPath}.itemSelector`
+		) as string | string[]
+
+		const rules: ExtractionRulesDTO = {
+			itemSelectors: Array.isArray(itemSelector)
+				? itemSelector
+				: [itemSelector],
+			title: this.buildFieldRule(rawRules.title || {}, `${configPath}.title`),
+			link: this.buildFieldRule(
+				rawRules.link || { attribute: 'href' },
+				`${configPath}.link`
+			),
+			minTitleLength: rawRules.minTitleLength ?? 1,
+		}
+		if (rawRules.date) {
+			rules.date = this.buildFieldRule(rawRules.date, `${configPath}.date`)
+		}
+		if (rawRules.summary) {
+			rules.summary = this.buildFieldRule(
+				rawRules.summary,
+				`${configPath}.summary`
+			)
+		}
+		return rules
+	}
+
+	private buildFieldRule(
+		rawRule: RawFieldRule,
+		configPath: string
+	): FieldRuleDTO {
+		if (rawRule.pattern !== undefined) {
+			try {
+				new RegExp(rawRule.pattern)
+			} catch (error) {
+				throw new Error(
+					`Invalid regular expression in configuration '${configPath}.pattern': ${error}`
+				)
+			}
+		}
+		if (rawRule.replacement !== undefined && rawRule.pattern === undefined) {
+			throw new Error(
+				`Configuration '${configPath}.replacement' requires '${configPath}.pattern'`
+			)
+		}
+
+		return { ...rawRule }
+	}
+
+	private buildChannelsConfig(): ChannelsConfigDTO {
+		const channels: ChannelsConfigDTO = {}
+		const notifications = this.config.notifications || {}
+		for (const name of ['slack', 'teams', 'discord'] as const) {
+			const rawChatWebhook = notifications[name]
+			if (rawChatWebhook) {
+				channels[name] = this.buildChatWebhookConfig(
+					rawChatWebhook,
+					`notifications.${name}`
+				)
+			}
+		}
+		const rawWebhook = this.config.notifications?.webhook
+		if (rawWebhook) {
+			channels.webhook = this.buildWebhookConfig(rawWebhook)
+		}
+		const rawTelegram = this.config.notifications?.telegram
+		if (rawTelegram) {
+			channels.telegram = this.buildTelegramConfig(rawTelegram)
+		}
+		return channels
+	}
+
+	private buildChatWebhookConfig(
+		rawChatWebhook: RawChatWebhookConfig,
+		configPath: string
+	): ChatWebhookConfigDTO {
+		const enabled = (rawChatWebhook.enabled ?? true) as boolean
+		const webhookUrl = enabled
+			? (this.getRequiredConfig(
+					rawChatWebhook,
+					'webhookUrl',
+					`${configPath}.webhookUrl`
+			  ) as string)
+			: rawChatWebhook.webhookUrl ?? ''
+		if (enabled && !webhookUrl.startsWith('https://')) {
+			throw new Error(
+				`Invalid configuration '${configPath}.webhookUrl': must be an https URL`
+			)
+		}
+		return { enabled, webhookUrl }
+	}
+
+	private buildWebhookConfig(rawWebhook: RawWebhookConfig): WebhookConfigDTO {
+		const enabled = rawWebhook.enabled ?? true
+		const urls = enabled
+			? (this.getRequiredConfig(
+					rawWebhook,
+					'urls',
+					'notifications.webhook.urls'
+			  ) as string[])
+			: rawWebhook.urls ?? []
+		for (const url of urls) {
+			if (!/^https?:\/\//.test(url)) {
+				throw new Error(
+					`Invalid configuration 'notifications.webhook.urls': '${url}' is not an http(s) URL`
+				)
+			}
+		}
+
+		const webhook: WebhookConfigDTO = {
+			enabled,
+			urls,
+			headers: rawWebhook.headers ?? {},
+			timeoutSeconds: rawWebhook.timeoutSeconds ?? 10,
+			maxRetries: rawWebhook.maxRetries ?? 3,
+		}
+		if (webhook.maxRetries < 1) {
+			throw new Error(
+				`Configuration 'notifications.webhook.maxRetries' must be at least 1`
+			)
+		}
+		if (rawWebhook.secret) {
+			webhook.secret = rawWebhook.secret
+		}
+		return webhook
+	}
+
+	private buildTelegramConfig(
+		rawTelegram: RawTelegramConfig
+	): TelegramConfigDTO {
+		const enabled = rawTelegram.enabled ?? true
+		if (!enabled) {
+			return {
+				enabled,
+				botToken: rawTelegram.botToken ?? '',
+				chatIds: (rawTelegram.chatIds ?? []).map(String),
+			}
+		}
+
+		const chatIds = this.getRequiredConfig(
+			rawTelegram,
+			'chatIds',
+			'notifications.telegram.chatIds'
+		) as Array<string | number>
+		if (chatIds.length === 0) {
+			throw new Error(
+				`Configuration 'notifications.telegram.chatIds' needs at least one chat id`
+			)
+		}
+		return {
+			enabled,
+			botToken: this.getRequiredConfig(
+				rawTelegram,
+				'botToken',
+				'notifications.telegram.botToken'
+			) as string,
+			chatIds: chatIds.map(String),
+		}
+	}
+
+	private buildDigestsConfig(): DigestConfigDTO[] {
+		const rawDigests = this.config.notifications?.digest || {}
+		return Object.entries(rawDigests).map(([channel, rawDigest]) => {
+			const configPath = `notifications.digest.${channel}`
+			if (!NOTIFICATION_CHANNELS.includes(channel)) {
+				throw new Error(
+					`Invalid configuration 'notifications.digest': '${channel}'. Available channels: ${NOTIFICATION_CHANNELS.join(
+						', '
+					)}`
+				)
+			}
+
+			const schedule = this.getRequiredConfig(
+				rawDigest,
+				'schedule',
+				`${configPath}.schedule`
+			) as string
+			if (!cron.validate(schedule)) {
+				throw new Error(
+					`Invalid cron expression in configuration '${configPath}.schedule': '${schedule}'`
+				)
+			}
+
+			const digest: DigestConfigDTO = { channel, schedule }
+			const rawUrgent = rawDigest.urgent
+			if (rawUrgent) {
+				const urgent: UrgentRuleDTO = {}
+				if (rawUrgent.titlePattern) {
+					try {
+						compileTextPattern(rawUrgent.titlePattern)
+					} catch (error) {
+						throw new Error(
+							`Invalid regular expression in configuration '${configPath}.urgent.titlePattern': ${error}`
+						)
+					}
+					urgent.titlePattern = rawUrgent.titlePattern
+				}
+				if (rawUrgent.sources) {
+					urgent.sources = rawUrgent.sources
+				}
+				if (rawUrgent.minPriority) {
+					urgent.minPriority = this.buildPriority(
+						rawUrgent.minPriority,
+						`${configPath}.urgent.minPriority`
+					)
+				}
+				digest.urgent = urgent
+			}
+			if (rawDigest.recipients) {
+				digest.recipients = this.buildRecipients(
+					rawDigest.recipients,
+					channel,
+					`${configPath}.recipients`
+				)
+			}
+			return digest
+		})
+	}
+
+	private buildScheduleRules(rawRules: RawScheduleRule[]): ScheduleRuleDTO[] {
+		return rawRules.map((rawRule, index) => {
+			const configPath = `scheduler.rules[${index}]`
+			const name = this.getRequiredConfig(
+				rawRule,
+				'name',
+				`${configPath}.name`
+			) as string
+			const timeRange = this.getRequiredConfig(
+				rawRule,
+				'timeRange',
+				`${configPath}.timeRange`
+			) as string
+			const intervalMinutes = this.getRequiredConfig(
+				rawRule,
+				'intervalMinutes',
+				`${configPath}.intervalMinutes`
+			) as number
+			const days = this.getRequiredConfig(
+				rawRule,
+				'days',
+				`${configPath}.days`
+			) as string[]
+
+			if (!parseTimeRange(timeRange)) {
+				throw new Error(
+					`Invalid configuration '${configPath}.timeRange': '${timeRange}'. Expected HH:MM-HH:MM`
+				)
+			}
+			if (!Number.isInteger(intervalMinutes) || intervalMinutes < 1) {
+				throw new Error(
+					`Configuration '${configPath}.intervalMinutes' must be a positive whole number`
+				)
+			}
+
+			return {
+				name,
+				timeRange,
+				intervalMinutes,
+				days: this.buildWeekdays(days, `${configPath}.days`),
+			}
+		})
+	}
+
+	private buildWeekdays(days: string[], configPath: string): Weekday[] {
+		const normalizedDays = days.map((day) => day.toLowerCase())
+		for (const day of normalizedDays) {
+			if (!WEEKDAYS.includes(day as Weekday)) {
+				throw new Error(
+					`Invalid configuration '${configPath}': '${day}'. Available days: ${WEEKDAYS.join(
+						', '
+					)}`
+				)
+			}
+		}
+		return normalizedDays as Weekday[]
+	}
+
+	private buildQuietHoursConfig(): QuietHoursConfigDTO {
+		const rawQuietHours = this.config.notifications?.quietHours || {}
+		const rules = (rawQuietHours.rules || []).map(
+			(rawRule, index): QuietHoursRuleDTO => {
+				const configPath = `notifications.quietHours.rules[${index}]`
+				const name = this.getRequiredConfig(
+					rawRule,
+					'name',
+					`${configPath}.name`
+				) as string
+				const timeRange = this.getRequiredConfig(
+					rawRule,
+					'timeRange',
+					`${configPath}.timeRange`
+				) as string
+				if (!parseTimeRange(timeRange)) {
+					throw new Error(
+						`Invalid configuration '${configPath}.timeRange': '${timeRange}'. Expected HH:MM-HH:MM`
+					)
+				}
+
+				const holidays = rawRule.holidays ?? []
+				for (const holiday of holidays) {
+					if (!/^(\d{4}-)?\d{2}-\d{2}$/.test(holiday)) {
+						throw new Error(
+							`Invalid configuration '${configPath}.holidays': '${holiday}'. Expected YYYY-MM-DD or MM-DD`
+						)
+					}
+				}
+				// Holiday-only rules leave out days, plain rules cover the whole week
+				const days = rawRule.days ?? (holidays.length > 0 ? [] : WEEKDAYS)
+
+				const rule: QuietHoursRuleDTO = {
+					name,
+					timeRange,
+					days: this.buildWeekdays(days, `${configPath}.days`),
+					holidays,
+				}
+				if (rawRule.channels) {
+					for (const channel of rawRule.channels) {
+						if (!NOTIFICATION_CHANNELS.includes(channel)) {
+							throw new Error(
+								`Invalid configuration '${configPath}.channels': '${channel}'. Available channels: ${NOTIFICATION_CHANNELS.join(
+									', '
+								)}`
+							)
+						}
+					}
+					rule.channels = rawRule.channels
+				}
+				if (rawRule.recipients) {
+					rule.recipients = rawRule.recipients.map(String)
+				}
+				return rule
+			}
+		)
+
+		return { merge: rawQuietHours.merge ?? true, rules }
+	}
+
+	private buildFilterRules(
+		rawRules: RawFilterRule[],
+		configPath: string
+	): FilterRuleDTO[] {
+		return rawRules.map((rawRule, index) => {
+			const rulePath = `${configPath}[${index}]`
+			const name = this.getRequiredConfig(
+				rawRule,
+				'name',
+				`${rulePath}.name`
+			) as string
+			const enabled = rawRule.enabled ?? true
+			// Turning off a global rule needs only its name
+			const action = (
+				enabled
+					? this.getRequiredConfig(rawRule, 'action', `${rulePath}.action`)
+					: rawRule.action ?? 'exclude'
+			) as FilterAction
+			if (!FILTER_ACTIONS.includes(action)) {
+				throw new Error(
+					`Invalid configuration '${rulePath}.action': '${action}'. Available actions: ${FILTER_ACTIONS.join(
+						', '
+					)}`
+				)
+			}
+
+			const rule: FilterRuleDTO = { name, action, enabled }
+			if (rawRule.patterns) {
+				for (const pattern of rawRule.patterns) {
+					try {
+						compileTextPattern(pattern)
+					} catch (error) {
+						throw new Error(
+							`Invalid regular expression in configuration '${rulePath}.patterns': ${error}`
+						)
+					}
+				}
+				rule.patterns = rawRule.patterns
+			}
+			if (rawRule.sources) {
+				rule.sources = rawRule.sources
+			}
+			if (rawRule.olderThanDays !== undefined) {
+				if (rawRule.olderThanDays < 0) {
+					throw new Error(
+						`Configuration '${rulePath}.olderThanDays' must not be negative`
+					)
+				}
+				rule.olderThanDays = rawRule.olderThanDays
+			}
+			return rule
+		})
+	}
+
+	private buildClassificationConfig(): ClassificationConfigDTO {
+		const rawClassification = this.config.classification || {}
+		const rules = (rawClassification.rules || []).map((rawRule, index) => {
+			const rulePath = `classification.rules[${index}]`
+			const name = this.getRequiredConfig(
+				rawRule,
+				'name',
+				`${rulePath}.name`
+			) as string
+			const patterns = this.getRequiredConfig(
+				rawRule,
+				'patterns',
+				`${rulePath}.patterns`
+			) as string[]
+			for (const pattern of patterns) {
+				try {
+					compileTextPattern(pattern)
+				} catch (error) {
+					throw new Error(
+						`Invalid regular expression in configuration '${rulePath}.patterns': ${error}`
+					)
+				}
+			}
+			if (!rawRule.category && !rawRule.priority) {
+				throw new Error(
+					`Configuration '${rulePath}' must set a category, a priority or both`
+				)
+			}
+
+			const rule: ClassificationRuleDTO = { name, patterns }
+			if (rawRule.category) {
+				rule.category = rawRule.category
+			}
+			if (rawRule.priority) {
+				rule.priority = this.buildPriority(
+					rawRule.priority,
+					`${rulePath}.priority`
+				)
+			}
+			if (rawRule.sources) {
+				rule.sources = rawRule.sources
+			}
+			return rule
+		})
+
+		return {
+			defaultPriority: this.buildPriority(
+				rawClassification.defaultPriority ?? 'normal',
+				'classification.defaultPriority'
+			),
+			rules,
+		}
+	}
+
+	private buildPriorityRoutes(): PriorityRouteDTO[] {
+		const rawRoutes = this.config.notifications?.routing || {}
+		return Object.entries(rawRoutes).map(([channel, rawRoute]) => {
+			if (!NOTIFICATION_CHANNELS.includes(channel)) {
+				throw new Error(
+					`Invalid configuration 'notifications.routing': '${channel}'. Available channels: ${NOTIFICATION_CHANNELS.join(
+						', '
+					)}`
+				)
+			}
+			const configPath = `notifications.routing.${channel}.minPriority`
+			return {
+				channel,
+				minPriority: this.buildPriority(
+					this.getRequiredConfig(rawRoute, 'minPriority', configPath) as string,
+					configPath
+				),
+			}
+		})
+	}
+
+	private buildPriority(value: string, configPath: string): ItemPriority {
+		if (!ITEM_PRIORITIES.includes(value as ItemPriority)) {
+			throw new Error(
+				`Invalid configuration '${configPath}': '${value}'. Available priorities: ${ITEM_PRIORITIES.join(
+					', '
+				)}`
+			)
+		}
+		return value as ItemPriority
+	}
+
+	private buildOutboxConfig(): OutboxConfigDTO {
+		const rawOutbox = this.config.notifications?.outbox || {}
+		const outbox: OutboxConfigDTO = {
+			maxAttempts: rawOutbox.maxAttempts ?? 5,
+			baseDelaySeconds: rawOutbox.baseDelaySeconds ?? 60,
+		}
+		if (!Number.isInteger(outbox.maxAttempts) || outbox.maxAttempts < 1) {
+			throw new Error(
+				`Configuration 'notifications.outbox.maxAttempts' must be a positive whole number`
+			)
+		}
+		if (outbox.baseDelaySeconds <= 0) {
+			throw new Error(
+				`Configuration 'notifications.outbox.baseDelaySeconds' must be positive`
+			)
+		}
+		return outbox
+	}
+
+	/**
+	 * Recipients limiting a setting to part of a channel, which have to be
+	 * recipients of that channel
+	 */
+	private buildRecipients(
+		rawRecipients: Array<string | number>,
+		channel: string,
+		configPath: string
+	): string[] {
+		const notifications = this.config.notifications || {}
+		// Channels that deliver to several recipients separately
+		const channelRecipients: Record<string, string[]> = {
+			email: notifications.email?.toEmails ?? [],
+			telegram: (notifications.telegram?.chatIds ?? []).map(String),
+			webhook: notifications.webhook?.urls ?? [],
+		}
+
+		const knownRecipients = channelRecipients[channel]
+		if (!knownRecipients) {
+			throw new Error(
+				`Invalid configuration '${configPath}': channel '${channel}' has no separate recipients`
+			)
+		}
+		const recipients = rawRecipients.map(String)
+		for (const recipient of recipients) {
+			if (!knownRecipients.includes(recipient)) {
+				throw new Error(
+					`Invalid configuration '${configPath}': '${recipient}' is not a recipient of channel '${channel}'`
+				)
+			}
+		}
+		return recipients
+	}
+
+	private buildSubscriptions(sources: SourceConfigDTO[]): SubscriptionDTO[] {
+		const notifications = this.config.notifications || {}
+		return (notifications.subscriptions || []).map((rawSubscription, index) => {
+			const configPath = `notifications.subscriptions[${index}]`
+			const name = this.getRequiredConfig(
+				rawSubscription,
+				'name',
+				`${configPath}.name`
+			) as string
+			const channel = this.getRequiredConfig(
+				rawSubscription,
+				'channel',
+				`${configPath}.channel`
+			) as string
+			if (!NOTIFICATION_CHANNELS.includes(channel)) {
+				throw new Error(
+					`Invalid configuration '${configPath}.channel': '${channel}'. Available channels: ${NOTIFICATION_CHANNELS.join(
+						', '
+					)}`
+				)
+			}
+
+			const subscription: SubscriptionDTO = {
+				name,
+				channel,
+				include: rawSubscription.include ?? [],
+				exclude: rawSubscription.exclude ?? [],
+			}
+			for (const pattern of [
+				...subscription.include,
+				...subscription.exclude,
+			]) {
+				try {
+					compileTextPattern(pattern)
+				} catch (error) {
+					throw new Error(
+						`Invalid regular expression in configuration '${configPath}': ${error}`
+					)
+				}
+			}
+
+			if (rawSubscription.sources) {
+				for (const sourceId of rawSubscription.sources) {
+					if (!sources.some((source) => source.id === sourceId)) {
+						throw new Error(
+							`Invalid configuration '${configPath}.sources': unknown source '${sourceId}'`
+						)
+					}
+				}
+				subscription.sources = rawSubscription.sources
+			}
+
+			if (rawSubscription.recipients) {
+				subscription.recipients = this.buildRecipients(
+					rawSubscription.recipients,
+					channel,
+					`${configPath}.recipients`
+				)
+			}
+			return subscription
+		})
+	}
+
 	private getDeploymentNotificationConfig(
 		notificationConfig: NonNullable<RawConfig['notifications']>['email']
 	): DeploymentNotificationConfigDTO {
@@ -1,21 +1,71 @@
 /**
  * Dependency injection container
  */
-import { NewsRepository, ConfigRepository } from '../domain/repositories'
 import {
+	NewsRepository,
+	ConfigRepository,
+	DeliveryLogRepository,
+	DigestQueueRepository,
+	HeldNotificationRepository,
+	OutboxRepository,
+} from '../domain/repositories'
+import {
+	ClassificationRule,
 	CrawlerService,
+	DigestNotificationService,
+	FilterRule,
+	ItemClassifier,
+	ItemFilterPipeline,
 	NotificationService,
+	NotificationDispatcher,
 	NewsMonitoringService,
+	OutboxNotificationService,
+	PriorityRoutingNotificationService,
+	QuietHoursNotificationService,
+	Subscription,
+	SubscriptionNotificationService,
+	UrgentRule,
 } from '../domain/services'
-import { JsonNewsRepository, JsonConfigRepository } from './repositories'
-import { WebCrawlerService, EmailNotificationService } from './services'
+import {
+	JsonNewsRepository,
+	SqliteNewsRepository,
+	JsonConfigRepository,
+	JsonDigestQueueRepository,
+	JsonHeldNotificationRepository,
+	JsonOutboxRepository,
+	JsonDeliveryLogRepository,
+} from './repositories'
+import {
+	WebCrawlerService,
+	FeedCrawlerService,
+	JsonApiCrawlerService,
+	EmailNotificationService,
+	SlackNotificationService,
+	TeamsNotificationService,
+	DiscordNotificationService,
+	TelegramNotificationService,
+	WebhookNotificationService,
+} from './services'
 import { ConfigManager } from './config'
-import { AppConfigDTO } from '../application/dto'
+import { QuietHoursSchedule, RuleScheduler, TimezoneClock } from './schedule'
+import { NotificationTemplates } from './templates'
+import {
+	AppConfigDTO,
+	FilterRuleDTO,
+	SourceConfigDTO,
+} from '../application/dto'
 import {
 	MonitorNewsUseCaseImpl,
 	TestConnectionUseCaseImpl,
 	GetCacheStatsUseCaseImpl,
 	CleanupCacheUseCaseImpl,
+	ImportCacheUseCaseImpl,
+	FlushDigestsUseCaseImpl,
+	ReleaseHeldNotificationsUseCaseImpl,
+	RetryOutboxUseCaseImpl,
+	GetOutboxUseCaseImpl,
+	QueryDeliveryLogUseCaseImpl,
+	GetItemRevisionsUseCaseImpl,
 } from '../application/useCases'
 export class DIContainer {
 	private readonly configManager: ConfigManager
@@ -46,9 +96,42 @@ export class DIContainer {
 	}
 
 	public getNewsRepository(): NewsRepository {
+		return this.getInstance('newsRepository', () => {
+			const { backend, cacheDir } = this.appConfig.storage
+			switch (backend) {
+				case 'sqlite':
+					return new SqliteNewsRepository(cacheDir)
+				case 'json':
+					return new JsonNewsRepository(cacheDir)
+			}
+		})
+	}
+
+	public getDigestQueueRepository(): DigestQueueRepository {
+		return this.getInstance(
+			'digestQueueRepository',
+			() => new JsonDigestQueueRepository(this.appConfig.storage.cacheDir)
+		)
+	}
+
+	public getHeldNotificationRepository(): HeldNotificationRepository {
+		return this.getInstance(
+			'heldNotificationRepository',
+			() => new JsonHeldNotificationRepository(this.appConfig.storage.cacheDir)
+		)
+	}
+
+	public getOutboxRepository(): OutboxRepository {
+		return this.getInstance(
+			'outboxRepository',
+			() => new JsonOutboxRepository(this.appConfig.storage.cacheDir)
+		)
+	}
+
+	public getDeliveryLogRepository(): DeliveryLogRepository {
 		return this.getInstance(
-			'newsRepository',
-			() => new JsonNewsRepository(this.appConfig.crawler.cacheDir)
+			'deliveryLogRepository',
+			() => new JsonDeliveryLogRepository(this.appConfig.storage.cacheDir)
 		)
 	}
 
@@ -59,17 +142,223 @@ export class DIContainer {
 		)
 	}
 
-	public getCrawlerService(): CrawlerService {
+	public getCrawlerServices(): CrawlerService[] {
+		return this.getInstance('crawlerServices', () =>
+			this.appConfig.sources.map((source) => this.createCrawlerService(source))
+		)
+	}
+
+	private createCrawlerService(source: SourceConfigDTO): CrawlerService {
+		switch (source.type) {
+			case 'feed':
+				return new FeedCrawlerService(source)
+			case 'json':
+				return new JsonApiCrawlerService(source)
+			case 'html':
+				return new WebCrawlerService(source)
+		}
+	}
+
+	public getNotificationTemplates(): NotificationTemplates {
 		return this.getInstance(
-			'crawlerService',
-			() => new WebCrawlerService(this.appConfig.crawler)
+			'notificationTemplates',
+			() =>
+				new NotificationTemplates(
+					this.appConfig.templates.dir,
+					this.appConfig.sources
+				)
+		)
+	}
+
+	/**
+	 * Every enabled channel behind the outbox, without subscriptions, quiet
+	 * hours or digests
+	 */
+	public getOutboxNotificationServices(): OutboxNotificationService[] {
+		return this.getInstance('outboxNotificationServices', () => {
+			const { channels } = this.appConfig
+			const templates = this.getNotificationTemplates()
+			const services: NotificationService[] = []
+			if (this.appConfig.notification.enabled) {
+				services.push(
+					new EmailNotificationService(this.appConfig.notification, templates)
+				)
+			}
+			if (channels.slack?.enabled) {
+				services.push(new SlackNotificationService(channels.slack, templates))
+			}
+			if (channels.teams?.enabled) {
+				services.push(new TeamsNotificationService(channels.teams, templates))
+			}
+			if (channels.discord?.enabled) {
+				services.push(
+					new DiscordNotificationService(channels.discord, templates)
+				)
+			}
+			if (channels.telegram?.enabled) {
+				services.push(
+					new TelegramNotificationService(channels.telegram, templates)
+				)
+			}
+			if (channels.webhook?.enabled) {
+				services.push(
+					new WebhookNotificationService(channels.webhook, templates)
+				)
+			}
+			return services.map(
+				(service) =>
+					new OutboxNotificationService(
+						service,
+						this.getOutboxRepository(),
+						this.appConfig.outbox,
+						this.getDeliveryLogRepository()
+					)
+			)
+		})
+	}
+
+	/**
+	 * Every channel with its subscriptions, without quiet hours or digests
+	 */
+	private getChannelServices(): NotificationService[] {
+		return this.getInstance('channelServices', () =>
+			this.getOutboxNotificationServices().map((service) =>
+				this.withSubscriptions(service)
+			)
+		)
+	}
+
+	private withSubscriptions(service: NotificationService): NotificationService {
+		const subscriptions = this.appConfig.subscriptions
+			.filter((configured) => configured.channel === service.channel)
+			.map((configured) => {
+				const subscription: Subscription = {
+					name: configured.name,
+					channel: configured.channel,
+					include: configured.include,
+					exclude: configured.exclude,
+				}
+				if (configured.recipients) {
+					subscription.recipients = configured.recipients
+				}
+				if (configured.sources) {
+					subscription.sourceIds = configured.sources
+				}
+				return subscription
+			})
+		if (subscriptions.length === 0) {
+			return service
+		}
+		return new SubscriptionNotificationService(service, subscriptions)
+	}
+
+	public getQuietHoursSchedule(): QuietHoursSchedule {
+		return this.getInstance(
+			'quietHoursSchedule',
+			() =>
+				new QuietHoursSchedule(
+					this.appConfig.quietHours.rules,
+					this.appConfig.timezone
+				)
+		)
+	}
+
+	public getQuietHoursNotificationServices(): QuietHoursNotificationService[] {
+		return this.getInstance('quietHoursNotificationServices', () => {
+			const schedule = this.getQuietHoursSchedule()
+			return this.getChannelServices()
+				.filter((service) => schedule.appliesTo(service.channel))
+				.map(
+					(service) =>
+						new QuietHoursNotificationService(
+							service,
+							this.getHeldNotificationRepository(),
+							schedule,
+							this.appConfig.quietHours.merge
+						)
+				)
+		})
+	}
+
+	/**
+	 * Channels as used for delivery. Priority routes come first, so channels
+	 * limited to important items never queue or hold the rest.
+	 */
+	public getNotificationServices(): NotificationService[] {
+		return this.getInstance('notificationServices', () =>
+			this.getDigestChannelServices().map((service) =>
+				this.withPriorityRoute(service)
+			)
+		)
+	}
+
+	private withPriorityRoute(service: NotificationService): NotificationService {
+		const route = this.appConfig.priorityRoutes.find(
+			(configuredRoute) => configuredRoute.channel === service.channel
+		)
+		if (!route) {
+			return service
+		}
+		return new PriorityRoutingNotificationService(service, route.minPriority)
+	}
+
+	/**
+	 * Every channel with its digest. Digests wrap quiet hours, so a digest
+	 * due during quiet hours is held as well.
+	 */
+	private getDigestChannelServices(): NotificationService[] {
+		return this.getInstance('digestChannelServices', () => {
+			const quietHoursServices = this.getQuietHoursNotificationServices()
+			return this.getChannelServices().map((service) =>
+				this.withDigest(
+					quietHoursServices.find(
+						(quietHoursService) => quietHoursService.channel === service.channel
+					) ?? service
+				)
+			)
+		})
+	}
+
+	/**
+	 * Wrap a channel that has a digest configured so new items are queued
+	 */
+	private withDigest(service: NotificationService): NotificationService {
+		const digest = this.appConfig.digests.find(
+			(configuredDigest) => configuredDigest.channel === service.channel
+		)
+		if (!digest) {
+			return service
+		}
+
+		const urgentRule: UrgentRule = {}
+		if (digest.urgent?.titlePattern) {
+			urgentRule.titlePattern = digest.urgent.titlePattern
+		}
+		if (digest.urgent?.sources) {
+			urgentRule.sourceIds = digest.urgent.sources
+		}
+		if (digest.urgent?.minPriority) {
+			urgentRule.minPriority = digest.urgent.minPriority
+		}
+		return new DigestNotificationService(
+			service,
+			this.getDigestQueueRepository(),
+			urgentRule,
+			digest.recipients
+		)
+	}
+
+	public getDigestNotificationServices(): DigestNotificationService[] {
+		return this.getDigestChannelServices().filter(
+			(service): service is DigestNotificationService =>
+				service instanceof DigestNotificationService
 		)
 	}
 
-	public getNotificationService(): NotificationService {
+	public getNotificationDispatcher(): NotificationDispatcher {
 		return this.getInstance(
-			'notificationService',
-			() => new EmailNotificationService(this.appConfig.notification)
+			'notificationDispatcher',
+			() => new NotificationDispatcher(this.getNotificationServices())
 		)
 	}
 
@@ -78,9 +367,83 @@ export class DIContainer {
 			'monitoringService',
 			() =>
 				new NewsMonitoringService(
-					this.getCrawlerService(),
+					this.getCrawlerServices(),
 					this.getNewsRepository(),
-					this.getNotificationService()
+					this.getNotificationDispatcher(),
+					this.getItemFilterPipeline(),
+					this.getItemClassifier()
+				)
+		)
+	}
+
+	public getItemClassifier(): ItemClassifier {
+		return this.getInstance('itemClassifier', () => {
+			const { defaultPriority, rules } = this.appConfig.classification
+			return new ItemClassifier(
+				rules.map((configured) => {
+					const rule: ClassificationRule = {
+						name: configured.name,
+						patterns: configured.patterns,
+					}
+					if (configured.category) {
+						rule.category = configured.category
+					}
+					if (configured.priority) {
+						rule.priority = configured.priority
+					}
+					if (configured.sources) {
+						rule.sourceIds = configured.sources
+					}
+					return rule
+				}),
+				defaultPriority
+			)
+		})
+	}
+
+	public getItemFilterPipeline(): ItemFilterPipeline {
+		return this.getInstance('itemFilterPipeline', () => {
+			const sourceRules: Record<string, FilterRule[]> = {}
+			for (const source of this.appConfig.sources) {
+				if (source.filters) {
+					sourceRules[source.id] = source.filters.map((rule) =>
+						this.toFilterRule(rule)
+					)
+				}
+			}
+			return new ItemFilterPipeline(
+				this.appConfig.filters.map((rule) => this.toFilterRule(rule)),
+				sourceRules
+			)
+		})
+	}
+
+	private toFilterRule(configured: FilterRuleDTO): FilterRule {
+		const rule: FilterRule = {
+			name: configured.name,
+			action: configured.action,
+			enabled: configured.enabled,
+		}
+		if (configured.patterns) {
+			rule.patterns = configured.patterns
+		}
+		if (configured.sources) {
+			rule.sourceIds = configured.sources
+		}
+		if (configured.olderThanDays !== undefined) {
+			rule.olderThanDays = configured.olderThanDays
+		}
+		return rule
+	}
+
+	public getRuleScheduler(): RuleScheduler {
+		return this.getInstance(
+			'ruleScheduler',
+			() =>
+				new RuleScheduler(
+					this.appConfig.schedule.rules,
+					this.appConfig.schedule.intervalHours * 60,
+					this.appConfig.timezone
 				)
 		)
 	}
@@ -97,8 +460,8 @@ export class DIContainer {
 			'testConnectionUseCase',
 			() =>
 				new TestConnectionUseCaseImpl(
-					this.getCrawlerService(),
-					this.getNotificationService()
+					this.getCrawlerServices(),
+					this.getNotificationDispatcher()
 				)
 		)
 	}
@@ -116,4 +479,68 @@ export class DIContainer {
 			() => new CleanupCacheUseCaseImpl(this.getNewsRepository())
 		)
 	}
+
+	public getImportCacheUseCase(): ImportCacheUseCaseImpl {
+		return this.getInstance('importCacheUseCase', () => {
+			const { backend, cacheDir } = this.appConfig.storage
+			if (backend === 'json') {
+				throw new Error(
+					"Cache import requires 'storage.backend' to be 'sqlite'"
+				)
+			}
+			return new ImportCacheUseCaseImpl(
+				new JsonNewsRepository(cacheDir),
+				this.getNewsRepository()
+			)
+		})
+	}
+
+	public getFlushDigestsUseCase(): FlushDigestsUseCaseImpl {
+		return this.getInstance(
+			'flushDigestsUseCase',
+			() => new FlushDigestsUseCaseImpl(this.getDigestNotificationServices())
+		)
+	}
+
+	public getReleaseHeldNotificationsUseCase(): ReleaseHeldNotificationsUseCaseImpl {
+		return this.getInstance(
+			'releaseHeldNotificationsUseCase',
+			() =>
+				new ReleaseHeldNotificationsUseCaseImpl(
+					this.getQuietHoursNotificationServices()
+				)
+		)
+	}
+
+	public getRetryOutboxUseCase(): RetryOutboxUseCaseImpl {
+		return this.getInstance(
+			'retryOutboxUseCase',
+			() => new RetryOutboxUseCaseImpl(this.getOutboxNotificationServices())
+		)
+	}
+
+	public getOutboxUseCase(): GetOutboxUseCaseImpl {
+		return this.getInstance(
+			'outboxUseCase',
+			() => new GetOutboxUseCaseImpl(this.getOutboxRepository())
+		)
+	}
+
+	public getQueryDeliveryLogUseCase(): QueryDeliveryLogUseCaseImpl {
+		return this.getInstance(
+			'queryDeliveryLogUseCase',
+			() =>
+				new QueryDeliveryLogUseCaseImpl(
+					this.getDeliveryLogRepository(),
+					new TimezoneClock(this.appConfig.timezone)
+				)
+		)
+	}
+
+	public getItemRevisionsUseCase(): GetItemRevisionsUseCaseImpl {
+		return this.getInstance(
+			'itemRevisionsUseCase',
+			() => new GetItemRevisionsUseCaseImpl(this.getNewsRepository())
+		)
+	}
 }
@@ -0,0 +1,97 @@
+import {
+	escapeHtml,
+	escapeHtmlAttribute,
+	escapeMarkdown,
+	escapeSlackText,
+	sanitizeUrl,
+} from './encoding'
+
+describe('escapeHtml', () => {
+	it('neutralises script tags in titles', () => {
+		expect(escapeHtml('<script>alert("x")</script>')).toBe(
+			'&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;'
+		)
+	})
+
+	it('escapes both quote characters and ampersands', () => {
+		expect(escapeHtml(`Tom & Jerry's "show"`)).toBe(
+			'Tom &amp; Jerry&#39;s &quot;show&quot;'
+		)
+	})
+})
+
+describe('escapeHtmlAttribute', () => {
+	it('keeps titles from breaking out of an attribute', () => {
+		const escaped = escapeHtmlAttribute('" onmouseover="alert(1)')
+		expect(escaped).not.toMatch(/["'<>=\s]/)
+		expect(escaped).toBe(
+			'&#x22;&#x20;onmouseover&#x3d;&#x22;alert&#x28;1&#x29;'
+		)
+	})
+
+	it('is safe in unquoted attributes', () => {
+		expect(escapeHtmlAttribute("x onload=alert('1')")).not.toMatch(/[\s'=]/)
+	})
+
+	it('leaves letters and digits of any script untouched', () => {
+		expect(escapeHtmlAttribute('疫苗2024')).toBe('疫苗2024')
+	})
+})
+
+describe('sanitizeUrl', () => {
+	it('keeps http and https links', () => {
+		expect(sanitizeUrl('https://example.com/news?id=1')).toBe(
+			'https://example.com/news?id=1'
+		)
+		expect(sanitizeUrl(' http://example.com ')).toBe('http://example.com/')
+	})
+
+	it.each([
+		'javascript:alert(1)',
+		'JavaScript:alert(1)',
+		'java\tscript:alert(1)',
+		'\u0000javascript:alert(1)',
+		'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+		'vbscript:msgbox(1)',
+		'file:///etc/passwd',
+	])('drops %j', (url) => {
+		expect(sanitizeUrl(url)).toBeUndefined()
+	})
+
+	it('drops relative and malformed links', () => {
+		expect(sanitizeUrl('/news/1')).toBeUndefined()
+		expect(sanitizeUrl('not a url')).toBeUndefined()
+	})
+})
+
+describe('escapeSlackText', () => {
+	it('keeps titles from forming links or mentions', () => {
+		expect(escapeSlackText('<https://evil|click> <!channel>')).toBe(
+			'&lt;https://evil|click&gt; &lt;!channel&gt;'
+		)
+	})
+})
+
+describe('escapeMarkdown', () => {
+	it('keeps titles from forming links', () => {
+		expect(escapeMarkdown('[x](https://evil)')).toBe('\\[x\\](https://evil)')
+	})
+
+	it('escapes emphasis and code markers', () => {
+		expect(escapeMarkdown('**bold** _it_ `code` ~~gone~~')).toBe(
+			'\\*\\*bold\\*\\* \\_it\\_ \\`code\\` \\~\\~gone\\~\\~'
+		)
+	})
+
+	it('escapes headings, quotes and list markers at line starts', () => {
+		expect(escapeMarkdown('# Title\n> quote\n- item\n2. second')).toBe(
+			'\\# Title\n\\> quote\n\\- item\n2\\. second'
+		)
+	})
+
+	it('leaves the same characters alone inside a line', () => {
+		expect(escapeMarkdown('COVID-19 cases > 100 on 5.1')).toBe(
+			'COVID-19 cases > 100 on 5.1'
+		)
+	})
+})
@@ -0,0 +1,66 @@
+/**
+ * Output encoding for scraped content placed into notifications
+ */
+
+const HTML_ESCAPES: Record<string, string> = {
+	'&': '&amp;',
+	'<': '&lt;',
+	'>': '&gt;',
+	'"': '&quot;',
+	"'": '&#39;',
+}
+
+const SAFE_URL_PROTOCOLS = ['http:', 'https:']
+
+/**
+ * Escape text for HTML element content
+ */
+export function escapeHtml(text: string): string {
+	return text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char] || char)
+}
+
+/**
+ * Escape a value for an HTML attribute, encoding every character other than
+ * letters and digits so it is safe even in an unquoted attribute
+ */
+export function escapeHtmlAttribute(value: string): string {
+	return value.replace(/[^\p{L}\p{N}]/gu, (char) => {
+		const codePoint = char.codePointAt(0) || 0
+		return `&#x${codePoint.toString(16)};`
+	})
+}
+
+/**
+ * Normalize a link and keep it only when it is an absolute http(s) URL, so
+ * javascript:, data: and similar links never reach a notification
+ */
+export function sanitizeUrl(url: string): string | undefined {
+	// Browsers ignore control characters and surrounding whitespace in URLs
+	const trimmed = url.replace(/[\u0000-\u001f\u007f]/g, '').trim()
+	try {
+		const parsed = new URL(trimmed)
+		return SAFE_URL_PROTOCOLS.includes(parsed.protocol)
+			? parsed.href
+			: undefined
+	} catch {
+		return undefined
+	}
+}
+
+/**
+ * Escape the characters Slack treats as control sequences in mrkdwn text
+ */
+export function escapeSlackText(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;')
+}
+
+/**
+ * Escape the characters Markdown renderers such as Teams TextBlocks and
+ * Discord messages turn into links, emphasis, code, headings or lists
+ */
+export function escapeMarkdown(text: string): string {
+	return text
+		.replace(/[\\`*_~[\]]/g, '\\$&')
+		.replace(/^(\s*)([#>+-])/gm, '$1\\$2')
+		.replace(/^(\s*\d+)\./gm, '$1\\.')
+}
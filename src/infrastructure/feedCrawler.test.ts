@@ -0,0 +1,111 @@
+import * as fs from 'fs'
+import * as path from 'path'
+import { FeedCrawlerService } from './services'
+import { NewsItem } from '../domain/entities'
+import { SourceConfigDTO } from '../application/dto'
+
+const readFixture = (name: string): string =>
+	fs.readFileSync(path.join(__dirname, '__fixtures__', name), 'utf8')
+
+const createCrawler = (): FeedCrawlerService => {
+	const config: SourceConfigDTO = {
+		id: 'example-feed',
+		name: 'Example Feed',
+		type: 'feed',
+		url: 'https://example.com/feed.xml',
+		timeoutSeconds: 10,
+		maxRetries: 1,
+		userAgents: ['test-agent'],
+		extraction: {
+			itemSelectors: [],
+			title: {},
+			link: {},
+			minTitleLength: 1,
+		},
+	}
+	return new FeedCrawlerService(config)
+}
+
+describe('FeedCrawlerService.parseFeed', () => {
+	beforeAll(() => {
+		jest.spyOn(console, 'log').mockImplementation(() => undefined)
+	})
+
+	afterAll(() => {
+		jest.restoreAllMocks()
+	})
+
+	describe('RSS 2.0', () => {
+		let items: NewsItem[] = []
+
+		beforeAll(() => {
+			items = createCrawler().parseFeed(readFixture('rss2.xml'))
+		})
+
+		it('maps item fields to news items', () => {
+			const [first] = items
+			expect(first).toBeDefined()
+			expect(first!.title).toBe('Clinic opening hours extended')
+			expect(first!.link).toBe('https://example.com/news/101')
+			expect(first!.date).toBe('Mon, 06 May 2024 09:30:00 +0800')
+			expect(first!.sourceId).toBe('example-feed')
+		})
+
+		it('turns the escaped description into a plain text preview', () => {
+			expect(items[0]!.contentPreview).toBe(
+				'Clinics stay open until 21:00 on weekdays.'
+			)
+			expect(items[2]!.contentPreview).toBe('Posted with a relative link')
+		})
+
+		it('falls back to the permalink guid and dc:date', () => {
+			const item = items[1]!
+			expect(item.link).toBe('https://example.com/news/102')
+			expect(item.date).toBe('2024-05-07T08:00:00+08:00')
+			expect(item.contentPreview).toBe('Registration opens next week.')
+		})
+
+		it('resolves relative links against the source url', () => {
+			expect(items[2]!.link).toBe('https://example.com/news/103')
+			expect(items[2]!.date).toBeUndefined()
+		})
+
+		it('skips items without a usable link', () => {
+			expect(items.map((item) => item.title)).toEqual([
+				'Clinic opening hours extended',
+				'Vaccination campaign starts',
+				'Relative link notice',
+			])
+		})
+	})
+
+	describe('Atom', () => {
+		let items: NewsItem[] = []
+
+		beforeAll(() => {
+			items = createCrawler().parseFeed(readFixture('atom.xml'))
+		})
+
+		it('maps entry fields to news items', () => {
+			const [first] = items
+			expect(first).toBeDefined()
+			expect(first!.title).toBe('Service maintenance window')
+			expect(first!.link).toBe('https://example.com/updates/201')
+			expect(first!.date).toBe('2024-05-08T10:00:00Z')
+			expect(first!.contentPreview).toBe(
+				'Systems are offline on Saturday night.'
+			)
+		})
+
+		it('falls back to published and html content', () => {
+			const item = items[1]!
+			expect(item.link).toBe('https://example.com/updates/202')
+			expect(item.date).toBe('2024-05-02T12:00:00Z')
+			expect(item.contentPreview).toBe('Use the new form from June.')
+		})
+
+		it('skips entries without a title', () => {
+			expect(items).toHaveLength(2)
+		})
+	})
+})
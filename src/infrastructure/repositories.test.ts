@@ -0,0 +1,186 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { JsonNewsRepository } from './repositories'
+import {
+	CrawlResult,
+	DEFAULT_SOURCE_ID,
+	NewsItem,
+	NotificationResult,
+} from '../domain/entities'
+import {
+	CrawlerService,
+	NewsMonitoringService,
+	NotificationDispatcher,
+	NotificationService,
+} from '../domain/services'
+
+const LINK = 'https://example.com/news?id=7'
+const CRAWLED_AT = '2024-01-15T08:00:00.000Z'
+
+/**
+ * A cache written before items had stable ids, fingerprints and first and
+ * last seen dates
+ */
+const writeLegacyCache = (cacheDir: string, title: string): string => {
+	const legacyId = NewsItem.createLegacyId(title, LINK)
+	fs.writeFileSync(
+		path.join(cacheDir, 'news_cache.json'),
+		JSON.stringify({
+			[legacyId]: {
+				id: legacyId,
+				title,
+				link: LINK,
+				date: '2024-01-15',
+				contentPreview: 'Clinics stay open until 21:00.',
+				crawledAt: CRAWLED_AT,
+			},
+		})
+	)
+	return legacyId
+}
+
+const readCacheIds = (cacheDir: string): string[] =>
+	Object.keys(
+		JSON.parse(fs.readFileSync(path.join(cacheDir, 'news_cache.json'), 'utf8'))
+	)
+
+const createCrawler = (items: () => NewsItem[]): CrawlerService => ({
+	sourceId: DEFAULT_SOURCE_ID,
+	crawl: async () =>
+		new CrawlResult(
+			true,
+			items(),
+			[],
+			[],
+			0,
+			new Date(),
+			false,
+			DEFAULT_SOURCE_ID
+		),
+	testConnection: async () => true,
+})
+
+describe('JsonNewsRepository with a legacy cache', () => {
+	let cacheDir: string
+	let legacyId: string
+	let repository: JsonNewsRepository
+	const current = NewsItem.create(
+		'Clinic hours extended',
+		LINK,
+		'2024-01-15',
+		'Clinics stay open until 21:00.'
+	)
+
+	beforeAll(() => {
+		jest.spyOn(console, 'log').mockImplementation(() => undefined)
+	})
+
+	afterAll(() => {
+		jest.restoreAllMocks()
+	})
+
+	beforeEach(() => {
+		cacheDir = fs.mkdtempSync(path.join(os.tmpdir(), 'news-cache-'))
+		legacyId = writeLegacyCache(cacheDir, current.title)
+		repository = new JsonNewsRepository(cacheDir)
+	})
+
+	afterEach(() => {
+		fs.rmSync(cacheDir, { recursive: true, force: true })
+	})
+
+	it('finds items cached under their legacy id', async () => {
+		expect(legacyId).not.toBe(current.id)
+		expect(await repository.findNewItems([current])).toEqual([])
+
+		const stored = await repository.findStored([current])
+		expect(stored.get(current.id)?.title).toBe(current.title)
+		expect(stored.get(current.id)?.fingerprint).toBeUndefined()
+	})
+
+	it('moves them to their current id when saved', async () => {
+		await repository.save([current])
+
+		expect(readCacheIds(cacheDir)).toEqual([current.id])
+		const saved = (await repository.findAll()).get(current.id)
+		expect(saved?.fingerprint).toBe(current.fingerprint)
+		expect(saved?.firstSeenAt).toEqual(new Date(CRAWLED_AT))
+	})
+
+	describe('when monitored', () => {
+		let crawledItems: NewsItem[]
+		let notifiedItems: NewsItem[]
+		let service: NewsMonitoringService
+
+		beforeEach(() => {
+			// Not a first run, so notifications reach every recipient
+			fs.writeFileSync(path.join(cacheDir, 'first_run_complete'), '')
+			crawledItems = []
+			notifiedItems = []
+			const channel: NotificationService = {
+				channel: 'stub',
+				sendNotification: async (request) => {
+					notifiedItems.push(...request.items)
+					return new NotificationResult(true, 'stub', 'Sent')
+				},
+				testConnection: async () => true,
+			}
+			service = new NewsMonitoringService(
+				[createCrawler(() => crawledItems)],
+				repository,
+				new NotificationDispatcher([channel])
+			)
+		})
+
+		it('adopts the current fingerprint instead of announcing an edit', async () => {
+			// The legacy entry has no fingerprint to compare a changed summary with
+			crawledItems = [
+				NewsItem.create(
+					current.title,
+					LINK,
+					'2024-01-15',
+					'Clinics stay open until 22:00.'
+				),
+			]
+
+			const result = await service.monitorNews()
+
+			expect(result.newItems).toEqual([])
+			expect(result.updatedItems).toEqual([])
+			expect(notifiedItems).toEqual([])
+			expect(await repository.findRevisions()).toEqual([])
+			expect(readCacheIds(cacheDir)).toEqual([current.id])
+		})
+
+		it('records the legacy version as the first revision of a later edit', async () => {
+			crawledItems = [current]
+			await service.monitorNews()
+
+			const edited = NewsItem.create(
+				'Clinic hours extended to 22:00',
+				LINK,
+				'2024-01-15',
+				'Clinics stay open until 22:00.'
+			)
+			crawledItems = [edited]
+			const result = await service.monitorNews()
+
+			expect(result.newItems).toEqual([])
+			expect(result.updatedItems).toHaveLength(1)
+			expect(result.updatedItems[0]!.changes).toMatchObject({
+				revision: 2,
+				title: { before: current.title, after: edited.title },
+			})
+			expect(notifiedItems.map((item) => item.id)).toEqual([current.id])
+			expect(await repository.findRevisions(current.id)).toEqual([
+				expect.objectContaining({
+					itemId: current.id,
+					revision: 1,
+					title: current.title,
+					fingerprint: current.fingerprint,
+				}),
+			])
+		})
+	})
+})
@@ -1,14 +1,32 @@
 /**
  * Repository implementations
  */
+import { randomUUID } from 'crypto'
 import * as fs from 'fs'
 import * as path from 'path'
-import { NewsItem } from '../domain/entities'
+import Database from 'better-sqlite3'
+import {
+	DEFAULT_SOURCE_ID,
+	ItemPriority,
+	NewsItem,
+	NewsItemData,
+} from '../domain/entities'
 import {
 	NewsRepository,
+	DigestQueueRepository,
+	HeldNotification,
+	HeldNotificationRepository,
+	ItemRevision,
+	OutboxEntry,
+	OutboxRepository,
+	OutboxStatus,
 	ConfigRepository,
+	DeliveryLogEntry,
+	DeliveryLogQuery,
+	DeliveryLogRepository,
 	RepositoryStats,
 	CrawlerConfig,
+	SourceConfig,
 	NotificationConfig,
 	ScheduleConfig,
 	ServerConfig,
@@ -19,12 +37,16 @@ export class JsonNewsRepository implements NewsRepository {
 	private readonly cacheDir: string
 	private readonly cacheFile: string
 	private readonly tempCacheFile: string
+	private readonly revisionsFile: string
+	private readonly tempRevisionsFile: string
 
 	constructor(cacheDir: string) {
 		this.cacheDir = path.resolve(cacheDir)
 		this.ensureCacheDir()
 		this.cacheFile = path.join(this.cacheDir, 'news_cache.json')
 		this.tempCacheFile = path.join(this.cacheDir, 'news_cache.tmp')
+		this.revisionsFile = path.join(this.cacheDir, 'news_revisions.json')
+		this.tempRevisionsFile = path.join(this.cacheDir, 'news_revisions.tmp')
 	}
 
 	private ensureCacheDir(): void {
@@ -34,11 +56,27 @@ export class JsonNewsRepository implements NewsRepository {
 	}
 
 	public async save(items: NewsItem[]): Promise<boolean> {
+		// Merge into the existing cache so items that scrolled off a page survive
+		const cache = await this.findAll()
+		for (const item of items) {
+			let stored = cache.get(item.id)
+			// Move items cached under their legacy id to the current one
+			const legacyId = NewsItem.createLegacyId(item.title, item.link)
+			if (!stored && legacyId !== item.id) {
+				stored = cache.get(legacyId)
+				cache.delete(legacyId)
+			}
+			cache.set(item.id, stored ? item.mergeWithStored(stored) : item)
+		}
+		return this.writeCache(cache)
+	}
+
+	private writeCache(cache: Map<string, NewsItem>): boolean {
 		try {
 			// Convert NewsItem objects to dict for JSON serialization
 			const data: Record<string, any> = {}
-			for (const item of items) {
-				data[item.id] = item.toDict()
+			for (const [itemId, item] of cache) {
+				data[itemId] = item.toDict()
 			}
 
 			// TODO: 原子性？
@@ -84,11 +122,11 @@ export class JsonNewsRepository implements NewsRepository {
 	}
 
 	public async findNewItems(currentItems: NewsItem[]): Promise<NewsItem[]> {
-		const cachedItems = await this.findAll()
+		const storedItems = await this.findStored(currentItems)
 		const newItems: NewsItem[] = []
 
 		for (const item of currentItems) {
-			if (!cachedItems.has(item.id)) {
+			if (!storedItems.has(item.id)) {
 				newItems.push(item)
 			}
 		}
@@ -96,14 +134,67 @@ export class JsonNewsRepository implements NewsRepository {
 		return newItems
 	}
 
+	public async findStored(
+		currentItems: NewsItem[]
+	): Promise<Map<string, NewsItem>> {
+		const cachedItems = await this.findAll()
+		const storedItems = new Map<string, NewsItem>()
+		for (const item of currentItems) {
+			const stored =
+				cachedItems.get(item.id) ||
+				cachedItems.get(NewsItem.createLegacyId(item.title, item.link))
+			if (stored) {
+				storedItems.set(item.id, stored)
+			}
+		}
+		return storedItems
+	}
+
+	public async addRevisions(revisions: ItemRevision[]): Promise<void> {
+		if (revisions.length === 0) {
+			return
+		}
+		this.writeRevisions([...this.readRevisions(), ...revisions])
+	}
+
+	public async findRevisions(itemId?: string): Promise<ItemRevision[]> {
+		const revisions = this.readRevisions()
+		return itemId === undefined
+			? revisions
+			: revisions.filter((revision) => revision.itemId === itemId)
+	}
+
+	private readRevisions(): ItemRevision[] {
+		if (!fs.existsSync(this.revisionsFile)) {
+			return []
+		}
+		const data: ItemRevision[] = JSON.parse(
+			fs.readFileSync(this.revisionsFile, 'utf-8')
+		)
+		return data.map((revision) => ({
+			...revision,
+			replacedAt: new Date(revision.replacedAt),
+		}))
+	}
+
+	private writeRevisions(revisions: ItemRevision[]): void {
+		// Write to temporary file first, then move into place
+		fs.writeFileSync(
+			this.tempRevisionsFile,
+			JSON.stringify(revisions, null, 2),
+			'utf-8'
+		)
+		fs.renameSync(this.tempRevisionsFile, this.revisionsFile)
+	}
+
 	public async cleanupOldEntries(maxAgeDays: number = 30): Promise<number> {
 		const cache = await this.findAll()
 		const cutoffDate = new Date(Date.now() - maxAgeDays * 24 * 60 * 60 * 1000)
 
-		// Filter out old entries
+		// Filter out entries not seen since the cutoff
 		const filteredCache = new Map<string, NewsItem>()
 		for (const [itemId, item] of cache) {
-			if (item.crawledAt > cutoffDate) {
+			if (item.lastSeenAt > cutoffDate) {
 				filteredCache.set(itemId, item)
 			}
 		}
@@ -111,7 +202,14 @@ export class JsonNewsRepository implements NewsRepository {
 		// Save filtered cache
 		const removedCount = cache.size - filteredCache.size
 		if (removedCount > 0) {
-			await this.save(Array.from(filteredCache.values()))
+			this.writeCache(filteredCache)
+			const revisions = this.readRevisions()
+			const keptRevisions = revisions.filter((revision) =>
+				filteredCache.has(revision.itemId)
+			)
+			if (keptRevisions.length < revisions.length) {
+				this.writeRevisions(keptRevisions)
+			}
 			console.log(`Cleaned up ${removedCount} old entries`)
 		}
 
@@ -124,17 +222,23 @@ export class JsonNewsRepository implements NewsRepository {
 			return {
 				totalItems: 0,
 				cacheSize: 0,
+				itemsBySource: {},
 			}
 		}
 
 		const items = Array.from(cache.values())
 		const oldestItem = items.reduce((oldest, current) =>
-			current.crawledAt < oldest.crawledAt ? current : oldest
+			current.firstSeenAt < oldest.firstSeenAt ? current : oldest
 		)
 		const newestItem = items.reduce((newest, current) =>
-			current.crawledAt > newest.crawledAt ? current : newest
+			current.firstSeenAt > newest.firstSeenAt ? current : newest
 		)
 
+		const itemsBySource: Record<string, number> = {}
+		for (const item of items) {
+			itemsBySource[item.sourceId] = (itemsBySource[item.sourceId] || 0) + 1
+		}
+
 		// Calculate cache file size
 		let cacheSize = 0
 		if (fs.existsSync(this.cacheFile)) {
@@ -144,9 +248,10 @@ export class JsonNewsRepository implements NewsRepository {
 
 		return {
 			totalItems: cache.size,
-			oldestItem: oldestItem.crawledAt,
-			newestItem: newestItem.crawledAt,
+			oldestItem: oldestItem.firstSeenAt,
+			newestItem: newestItem.firstSeenAt,
 			cacheSize,
+			itemsBySource,
 		}
 	}
 
@@ -189,6 +294,726 @@ export class JsonNewsRepository implements NewsRepository {
 	}
 }
 
+interface NewsItemRow {
+	id: string
+	source_id: string
+	title: string
+	link: string
+	date: string | null
+	content_preview: string
+	content: string
+	crawled_at: number
+	first_seen_at: number
+	last_seen_at: number
+	suppressed_by: string | null
+	// JSON array
+	categories: string | null
+	priority: string | null
+	fingerprint: string | null
+}
+
+interface ItemRevisionRow {
+	item_id: string
+	revision: number
+	title: string
+	date: string | null
+	content_preview: string
+	content: string
+	fingerprint: string | null
+	replaced_at: number
+}
+
+/**
+ * Schema migrations, applied in order and tracked through PRAGMA user_version
+ */
+const SQLITE_MIGRATIONS: string[] = [
+	`
+	CREATE TABLE news_items (
+		id TEXT PRIMARY KEY,
+		source_id TEXT NOT NULL,
+		title TEXT NOT NULL,
+		link TEXT NOT NULL,
+		date TEXT,
+		content_preview TEXT NOT NULL DEFAULT '',
+		content TEXT NOT NULL DEFAULT '',
+		crawled_at INTEGER NOT NULL,
+		first_seen_at INTEGER NOT NULL,
+		last_seen_at INTEGER NOT NULL
+	);
+	CREATE INDEX idx_news_items_source_id ON news_items (source_id);
+	CREATE INDEX idx_news_items_crawled_at ON news_items (crawled_at);
+	CREATE INDEX idx_news_items_last_seen_at ON news_items (last_seen_at);
+	CREATE TABLE app_state (
+		key TEXT PRIMARY KEY,
+		value TEXT NOT NULL
+	);
+	`,
+	`
+	ALTER TABLE news_items ADD COLUMN suppressed_by TEXT;
+	`,
+	`
+	ALTER TABLE news_items ADD COLUMN categories TEXT;
+	ALTER TABLE news_items ADD COLUMN priority TEXT;
+	`,
+	`
+	ALTER TABLE news_items ADD COLUMN fingerprint TEXT;
+	CREATE TABLE item_revisions (
+		item_id TEXT NOT NULL,
+		revision INTEGER NOT NULL,
+		title TEXT NOT NULL,
+		date TEXT,
+		content_preview TEXT NOT NULL DEFAULT '',
+		content TEXT NOT NULL DEFAULT '',
+		fingerprint TEXT,
+		replaced_at INTEGER NOT NULL,
+		PRIMARY KEY (item_id, revision)
+	);
+	`,
+]
+
+const FIRST_RUN_COMPLETE_KEY = 'first_run_complete'
+
+export class SqliteNewsRepository implements NewsRepository {
+	private readonly cacheDir: string
+	private readonly dbFile: string
+	private readonly db: Database.Database
+
+	constructor(cacheDir: string) {
+		this.cacheDir = path.resolve(cacheDir)
+		if (!fs.existsSync(this.cacheDir)) {
+			fs.mkdirSync(this.cacheDir, { recursive: true })
+		}
+		this.dbFile = path.join(this.cacheDir, 'news_cache.db')
+		this.db = new Database(this.dbFile)
+		this.db.pragma('journal_mode = WAL')
+		this.migrate()
+	}
+
+	private migrate(): void {
+		const currentVersion = this.db.pragma('user_version', {
+			simple: true,
+		}) as number
+
+		for (
+			let version = currentVersion;
+			version < SQLITE_MIGRATIONS.length;
+			version++
+		) {
+			const migration = SQLITE_MIGRATIONS[version]
+			if (migration === undefined) continue
+			this.db.transaction(() => {
+				this.db.exec(migration)
+				this.db.pragma(`user_version = ${version + 1}`)
+			})()
+			console.log(`Applied SQLite migration ${version + 1}`)
+		}
+	}
+
+	public async save(items: NewsItem[]): Promise<boolean> {
+		const selectItem = this.db.prepare<[string], NewsItemRow>(
+			'SELECT * FROM news_items WHERE id = ?'
+		)
+		const upsertItem = this.db.prepare(`
+			INSERT OR REPLACE INTO news_items (
+				id, source_id, title, link, date, content_preview, content,
+				crawled_at, first_seen_at, last_seen_at, suppressed_by, categories,
+				priority, fingerprint
+			) VALUES (
+				@id, @source_id, @title, @link, @date, @content_preview, @content,
+				@crawled_at, @first_seen_at, @last_seen_at, @suppressed_by, @categories,
+				@priority, @fingerprint
+			)
+		`)
+		const deleteItem = this.db.prepare('DELETE FROM news_items WHERE id = ?')
+
+		try {
+			// Merge with stored rows in one transaction
+			this.db.transaction((batch: NewsItem[]) => {
+				for (const item of batch) {
+					let storedRow = selectItem.get(item.id)
+					// Move items stored under their legacy id to the current one
+					const legacyId = NewsItem.createLegacyId(item.title, item.link)
+					if (!storedRow && legacyId !== item.id) {
+						storedRow = selectItem.get(legacyId)
+						if (storedRow) {
+							deleteItem.run(legacyId)
+						}
+					}
+					const merged = storedRow
+						? item.mergeWithStored(this.rowToItem(storedRow))
+						: item
+					upsertItem.run(this.itemToRow(merged))
+				}
+			})(items)
+			return true
+		} catch (error) {
+			console.error('Error saving to SQLite:', error)
+			return false
+		}
+	}
+
+	public async findAll(): Promise<Map<string, NewsItem>> {
+		const rows = this.db
+			.prepare<[], NewsItemRow>('SELECT * FROM news_items')
+			.all()
+		const items = new Map<string, NewsItem>()
+		for (const row of rows) {
+			items.set(row.id, this.rowToItem(row))
+		}
+		return items
+	}
+
+	public async findNewItems(currentItems: NewsItem[]): Promise<NewsItem[]> {
+		const selectId = this.db.prepare<[string], { id: string }>(
+			'SELECT id FROM news_items WHERE id = ?'
+		)
+		return currentItems.filter(
+			(item) =>
+				!selectId.get(item.id) &&
+				!selectId.get(NewsItem.createLegacyId(item.title, item.link))
+		)
+	}
+
+	public async findStored(
+		currentItems: NewsItem[]
+	): Promise<Map<string, NewsItem>> {
+		const selectItem = this.db.prepare<[string], NewsItemRow>(
+			'SELECT * FROM news_items WHERE id = ?'
+		)
+		const storedItems = new Map<string, NewsItem>()
+		for (const item of currentItems) {
+			const row =
+				selectItem.get(item.id) ||
+				selectItem.get(NewsItem.createLegacyId(item.title, item.link))
+			if (row) {
+				storedItems.set(item.id, this.rowToItem(row))
+			}
+		}
+		return storedItems
+	}
+
+	public async addRevisions(revisions: ItemRevision[]): Promise<void> {
+		const insertRevision = this.db.prepare(`
+			INSERT OR REPLACE INTO item_revisions (
+				item_id, revision, title, date, content_preview, content,
+				fingerprint, replaced_at
+			) VALUES (
+				@item_id, @revision, @title, @date, @content_preview, @content,
+				@fingerprint, @replaced_at
+			)
+		`)
+		this.db.transaction((batch: ItemRevision[]) => {
+			for (const revision of batch) {
+				insertRevision.run({
+					item_id: revision.itemId,
+					revision: revision.revision,
+					title: revision.title,
+					date: revision.date ?? null,
+					content_preview: revision.contentPreview,
+					content: revision.content,
+					fingerprint: revision.fingerprint ?? null,
+					replaced_at: revision.replacedAt.getTime(),
+				})
+			}
+		})(revisions)
+	}
+
+	public async findRevisions(itemId?: string): Promise<ItemRevision[]> {
+		const rows =
+			itemId === undefined
+				? this.db
+						.prepare<[], ItemRevisionRow>(
+							'SELECT * FROM item_revisions ORDER BY replaced_at, revision'
+						)
+						.all()
+				: this.db
+						.prepare<[string], ItemRevisionRow>(
+							'SELECT * FROM item_revisions WHERE item_id = ? ORDER BY revision'
+						)
+						.all(itemId)
+		return rows.map((row) => {
+			const revision: ItemRevision = {
+				itemId: row.item_id,
+				revision: row.revision,
+				title: row.title,
+				contentPreview: row.content_preview,
+				content: row.content,
+				replacedAt: new Date(row.replaced_at),
+			}
+			if (row.date !== null) revision.date = row.date
+			if (row.fingerprint !== null) revision.fingerprint = row.fingerprint
+			return revision
+		})
+	}
+
+	public async cleanupOldEntries(maxAgeDays: number = 30): Promise<number> {
+		const cutoff = Date.now() - maxAgeDays * 24 * 60 * 60 * 1000
+		const { changes } = this.db
+			.prepare('DELETE FROM news_items WHERE last_seen_at <= ?')
+			.run(cutoff)
+		this.db
+			.prepare(
+				'DELETE FROM item_revisions WHERE item_id NOT IN (SELECT id FROM news_items)'
+			)
+			.run()
+		if (changes > 0) {
+			console.log(`Cleaned up ${changes} old entries`)
+		}
+		return changes
+	}
+
+	public async getStats(): Promise<RepositoryStats> {
+		const totals = this.db
+			.prepare<
+				[],
+				{ total: number; oldest: number | null; newest: number | null }
+			>(
+				'SELECT COUNT(*) AS total, MIN(first_seen_at) AS oldest, MAX(first_seen_at) AS newest FROM news_items'
+			)
+			.get()
+		const sourceRows = this.db
+			.prepare<[], { source_id: string; count: number }>(
+				'SELECT source_id, COUNT(*) AS count FROM news_items GROUP BY source_id'
+			)
+			.all()
+
+		const itemsBySource: Record<string, number> = {}
+		for (const row of sourceRows) {
+			itemsBySource[row.source_id] = row.count
+		}
+
+		// Database file plus its write-ahead log
+		let cacheSize = 0
+		for (const file of [this.dbFile, `${this.dbFile}-wal`]) {
+			if (fs.existsSync(file)) {
+				cacheSize += fs.statSync(file).size
+			}
+		}
+
+		if (!totals || totals.total === 0) {
+			return { totalItems: 0, cacheSize, itemsBySource }
+		}
+
+		return {
+			totalItems: totals.total,
+			oldestItem: totals.oldest !== null ? new Date(totals.oldest) : undefined,
+			newestItem: totals.newest !== null ? new Date(totals.newest) : undefined,
+			cacheSize,
+			itemsBySource,
+		}
+	}
+
+	public async resetFirstRunState(): Promise<boolean> {
+		try {
+			this.db
+				.prepare('DELETE FROM app_state WHERE key = ?')
+				.run(FIRST_RUN_COMPLETE_KEY)
+			console.log(
+				'✅ First run state reset - next run will be treated as first deployment'
+			)
+			return true
+		} catch (error) {
+			console.warn('⚠️  Failed to reset first run state:', error)
+			return false
+		}
+	}
+
+	public async isFirstRunAfterDeployment(): Promise<boolean> {
+		const { changes } = this.db
+			.prepare('INSERT OR IGNORE INTO app_state (key, value) VALUES (?, ?)')
+			.run(FIRST_RUN_COMPLETE_KEY, new Date().toISOString())
+
+		// Inserting the marker succeeded = first run
+		if (changes > 0) {
+			console.log(
+				'✅ First deployment completed - future notifications will go to all recipients'
+			)
+			return true
+		}
+		return false
+	}
+
+	private itemToRow(item: NewsItem): NewsItemRow {
+		return {
+			id: item.id,
+			source_id: item.sourceId,
+			title: item.title,
+			link: item.link,
+			date: item.date ?? null,
+			content_preview: item.contentPreview,
+			content: item.content,
+			crawled_at: item.crawledAt.getTime(),
+			first_seen_at: item.firstSeenAt.getTime(),
+			last_seen_at: item.lastSeenAt.getTime(),
+			suppressed_by: item.suppressedBy ?? null,
+			categories:
+				item.categories.length > 0 ? JSON.stringify(item.categories) : null,
+			priority: item.priority ?? null,
+			fingerprint: item.fingerprint ?? null,
+		}
+	}
+
+	private rowToItem(row: NewsItemRow): NewsItem {
+		return new NewsItem(
+			row.id,
+			row.title,
+			row.link,
+			row.date ?? undefined,
+			row.content_preview,
+			new Date(row.crawled_at),
+			row.source_id,
+			row.content,
+			new Date(row.first_seen_at),
+			new Date(row.last_seen_at),
+			row.suppressed_by ?? undefined,
+			row.categories ? (JSON.parse(row.categories) as string[]) : [],
+			(row.priority as ItemPriority | null) ?? undefined,
+			row.fingerprint ?? undefined
+		)
+	}
+}
+
+/**
+ * Digest queues kept in one JSON file, keyed by channel, or by channel and
+ * recipient for recipient queues
+ */
+export class JsonDigestQueueRepository implements DigestQueueRepository {
+	private readonly queueFile: string
+	private readonly tempQueueFile: string
+
+	constructor(cacheDir: string) {
+		const resolvedDir = path.resolve(cacheDir)
+		if (!fs.existsSync(resolvedDir)) {
+			fs.mkdirSync(resolvedDir, { recursive: true })
+		}
+		this.queueFile = path.join(resolvedDir, 'digest_queue.json')
+		this.tempQueueFile = path.join(resolvedDir, 'digest_queue.tmp')
+	}
+
+	public async enqueue(
+		channel: string,
+		items: NewsItem[],
+		recipient?: string
+	): Promise<void> {
+		if (items.length === 0) {
+			return
+		}
+
+		const queues = this.readQueues()
+		const key = this.getQueueKey(channel, recipient)
+		const queue = queues[key] || []
+		const queuedIds = new Set(queue.map((item) => item.id))
+		for (const item of items) {
+			if (!queuedIds.has(item.id)) {
+				queue.push(item.toDict())
+				queuedIds.add(item.id)
+			}
+		}
+		queues[key] = queue
+		this.writeQueues(queues)
+	}
+
+	public async findQueued(
+		channel: string,
+		recipient?: string
+	): Promise<NewsItem[]> {
+		const queue = this.readQueues()[this.getQueueKey(channel, recipient)] || []
+		return queue.map((itemData) => NewsItem.fromDict(itemData))
+	}
+
+	public async remove(
+		channel: string,
+		itemIds: string[],
+		recipient?: string
+	): Promise<void> {
+		const queues = this.readQueues()
+		const key = this.getQueueKey(channel, recipient)
+		const queue = queues[key]
+		if (!queue) {
+			return
+		}
+
+		const removedIds = new Set(itemIds)
+		const remaining = queue.filter((item) => !removedIds.has(item.id))
+		if (remaining.length > 0) {
+			queues[key] = remaining
+		} else {
+			delete queues[key]
+		}
+		this.writeQueues(queues)
+	}
+
+	/**
+	 * Channel queues keep the plain channel key used before recipient queues
+	 */
+	private getQueueKey(channel: string, recipient?: string): string {
+		return recipient === undefined ? channel : `${channel}/${recipient}`
+	}
+
+	private readQueues(): Record<string, NewsItemData[]> {
+		if (!fs.existsSync(this.queueFile)) {
+			return {}
+		}
+		return JSON.parse(fs.readFileSync(this.queueFile, 'utf-8'))
+	}
+
+	private writeQueues(queues: Record<string, NewsItemData[]>): void {
+		// Write to temporary file first, then move into place
+		fs.writeFileSync(
+			this.tempQueueFile,
+			JSON.stringify(queues, null, 2),
+			'utf-8'
+		)
+		fs.renameSync(this.tempQueueFile, this.queueFile)
+	}
+}
+
+interface HeldNotificationData {
+	id: string
+	channel: string
+	recipient?: string
+	items: NewsItemData[]
+	isDigest: boolean
+	heldAt: string
+}
+
+/**
+ * Notifications held by quiet hours, kept in one JSON file
+ */
+export class JsonHeldNotificationRepository
+	implements HeldNotificationRepository
+{
+	private readonly heldFile: string
+	private readonly tempHeldFile: string
+
+	constructor(cacheDir: string) {
+		const resolvedDir = path.resolve(cacheDir)
+		if (!fs.existsSync(resolvedDir)) {
+			fs.mkdirSync(resolvedDir, { recursive: true })
+		}
+		this.heldFile = path.join(resolvedDir, 'held_notifications.json')
+		this.tempHeldFile = path.join(resolvedDir, 'held_notifications.tmp')
+	}
+
+	public async hold(notification: Omit<HeldNotification, 'id'>): Promise<void> {
+		const held: HeldNotificationData = {
+			id: randomUUID(),
+			channel: notification.channel,
+			items: notification.items.map((item) => item.toDict()),
+			isDigest: notification.isDigest,
+			heldAt: notification.heldAt.toISOString(),
+		}
+		if (notification.recipient !== undefined) {
+			held.recipient = notification.recipient
+		}
+		this.writeHeld([...this.readHeld(), held])
+	}
+
+	public async findHeld(channel: string): Promise<HeldNotification[]> {
+		return this.readHeld()
+			.filter((held) => held.channel === channel)
+			.map((held) => {
+				const notification: HeldNotification = {
+					id: held.id,
+					channel: held.channel,
+					items: held.items.map((itemData) => NewsItem.fromDict(itemData)),
+					isDigest: held.isDigest,
+					heldAt: new Date(held.heldAt),
+				}
+				if (held.recipient !== undefined) {
+					notification.recipient = held.recipient
+				}
+				return notification
+			})
+	}
+
+	public async remove(ids: string[]): Promise<void> {
+		const removedIds = new Set(ids)
+		this.writeHeld(this.readHeld().filter((held) => !removedIds.has(held.id)))
+	}
+
+	private readHeld(): HeldNotificationData[] {
+		if (!fs.existsSync(this.heldFile)) {
+			return []
+		}
+		return JSON.parse(fs.readFileSync(this.heldFile, 'utf-8'))
+	}
+
+	private writeHeld(held: HeldNotificationData[]): void {
+		// Write to temporary file first, then move into place
+		fs.writeFileSync(this.tempHeldFile, JSON.stringify(held, null, 2), 'utf-8')
+		fs.renameSync(this.tempHeldFile, this.heldFile)
+	}
+}
+
+interface OutboxEntryData {
+	id: string
+	channel: string
+	recipient?: string
+	items: NewsItemData[]
+	isDevNotification: boolean
+	isDigest: boolean
+	status: OutboxStatus
+	attempts: number
+	nextAttemptAt: string
+	lastError?: string
+	deliveredItemIds?: string[]
+	createdAt: string
+}
+
+/**
+ * Notification outbox kept in one JSON file
+ */
+export class JsonOutboxRepository implements OutboxRepository {
+	private readonly outboxFile: string
+	private readonly tempOutboxFile: string
+
+	constructor(cacheDir: string) {
+		const resolvedDir = path.resolve(cacheDir)
+		if (!fs.existsSync(resolvedDir)) {
+			fs.mkdirSync(resolvedDir, { recursive: true })
+		}
+		this.outboxFile = path.join(resolvedDir, 'outbox.json')
+		this.tempOutboxFile = path.join(resolvedDir, 'outbox.tmp')
+	}
+
+	public async add(entries: Omit<OutboxEntry, 'id'>[]): Promise<OutboxEntry[]> {
+		const added = entries.map((entry) => ({ ...entry, id: randomUUID() }))
+		this.writeEntries([
+			...this.readEntries(),
+			...added.map((entry) => this.entryToData(entry)),
+		])
+		return added
+	}
+
+	public async findDue(channel: string, at: Date): Promise<OutboxEntry[]> {
+		return (await this.findAll()).filter(
+			(entry) =>
+				entry.channel === channel &&
+				entry.status === 'pending' &&
+				entry.nextAttemptAt.getTime() <= at.getTime()
+		)
+	}
+
+	public async findAll(): Promise<OutboxEntry[]> {
+		return this.readEntries().map((data) => this.dataToEntry(data))
+	}
+
+	public async update(entry: OutboxEntry): Promise<void> {
+		this.writeEntries(
+			this.readEntries().map((data) =>
+				data.id === entry.id ? this.entryToData(entry) : data
+			)
+		)
+	}
+
+	public async remove(id: string): Promise<void> {
+		this.writeEntries(this.readEntries().filter((data) => data.id !== id))
+	}
+
+	private entryToData(entry: OutboxEntry): OutboxEntryData {
+		const { items, nextAttemptAt, createdAt, ...rest } = entry
+		return {
+			...rest,
+			items: items.map((item) => item.toDict()),
+			nextAttemptAt: nextAttemptAt.toISOString(),
+			createdAt: createdAt.toISOString(),
+		}
+	}
+
+	private dataToEntry(data: OutboxEntryData): OutboxEntry {
+		const { items, nextAttemptAt, createdAt, ...rest } = data
+		return {
+			...rest,
+			items: items.map((itemData) => NewsItem.fromDict(itemData)),
+			nextAttemptAt: new Date(nextAttemptAt),
+			createdAt: new Date(createdAt),
+		}
+	}
+
+	private readEntries(): OutboxEntryData[] {
+		if (!fs.existsSync(this.outboxFile)) {
+			return []
+		}
+		return JSON.parse(fs.readFileSync(this.outboxFile, 'utf-8'))
+	}
+
+	private writeEntries(entries: OutboxEntryData[]): void {
+		// Write to temporary file first, then move into place
+		fs.writeFileSync(
+			this.tempOutboxFile,
+			JSON.stringify(entries, null, 2),
+			'utf-8'
+		)
+		fs.renameSync(this.tempOutboxFile, this.outboxFile)
+	}
+}
+
+/**
+ * Delivery log appended as JSON Lines, one entry per line
+ */
+export class JsonDeliveryLogRepository implements DeliveryLogRepository {
+	private readonly logFile: string
+
+	constructor(cacheDir: string) {
+		const resolvedDir = path.resolve(cacheDir)
+		if (!fs.existsSync(resolvedDir)) {
+			fs.mkdirSync(resolvedDir, { recursive: true })
+		}
+		this.logFile = path.join(resolvedDir, 'delivery_log.jsonl')
+	}
+
+	public async append(entry: DeliveryLogEntry): Promise<void> {
+		fs.appendFileSync(
+			this.logFile,
+			JSON.stringify({ ...entry, timestamp: entry.timestamp.toISOString() }) +
+				'\n',
+			'utf-8'
+		)
+	}
+
+	public async find(query: DeliveryLogQuery): Promise<DeliveryLogEntry[]> {
+		if (!fs.existsSync(this.logFile)) {
+			return []
+		}
+
+		const entries: DeliveryLogEntry[] = []
+		const lines = fs.readFileSync(this.logFile, 'utf-8').split('\n')
+		// Newest entries are at the end of the file
+		for (let i = lines.length - 1; i >= 0; i--) {
+			const line = lines[i]?.trim()
+			if (!line) {
+				continue
+			}
+			const data = JSON.parse(line)
+			const entry: DeliveryLogEntry = {
+				...data,
+				timestamp: new Date(data.timestamp),
+			}
+			if (this.matches(entry, query)) {
+				entries.push(entry)
+				if (query.limit !== undefined && entries.length >= query.limit) {
+					break
+				}
+			}
+		}
+		return entries
+	}
+
+	private matches(entry: DeliveryLogEntry, query: DeliveryLogQuery): boolean {
+		return (
+			(query.itemId === undefined || entry.itemIds.includes(query.itemId)) &&
+			(query.channel === undefined || entry.channel === query.channel) &&
+			(query.recipient === undefined || entry.recipient === query.recipient) &&
+			(query.status === undefined || entry.status === query.status) &&
+			(query.since === undefined ||
+				entry.timestamp.getTime() >= query.since.getTime()) &&
+			(query.until === undefined ||
+				entry.timestamp.getTime() <= query.until.getTime())
+		)
+	}
+}
+
 export class JsonConfigRepository implements ConfigRepository {
 	private readonly configManager: ConfigManager
 
@@ -198,11 +1023,39 @@ export class JsonConfigRepository implements ConfigRepository {
 
 	public async getCrawlerConfig(): Promise<CrawlerConfig> {
 		const rawConfig = this.configManager.getCrawlerConfig()
+		const timeoutSeconds = rawConfig?.timeoutSeconds || 60
+		const maxRetries = rawConfig?.maxRetries || 3
+		const userAgents = rawConfig?.userAgents || []
+
+		const rawSources = this.configManager.getSourcesConfig()
+		const sources: SourceConfig[] = rawSources.map((source) => ({
+			id: source.id || '',
+			name: source.name || '',
+			type: source.type || 'html',
+			url: source.url || '',
+			timeoutSeconds: source.timeoutSeconds || timeoutSeconds,
+			maxRetries: source.maxRetries || maxRetries,
+			userAgents: source.userAgents || userAgents,
+		}))
+
+		// Legacy single-target configuration
+		if (sources.length === 0 && rawConfig?.targetUrl) {
+			sources.push({
+				id: DEFAULT_SOURCE_ID,
+				name: DEFAULT_SOURCE_ID,
+				type: 'html',
+				url: rawConfig.targetUrl,
+				timeoutSeconds,
+				maxRetries,
+				userAgents,
+			})
+		}
+
 		return {
-			targetUrl: rawConfig?.targetUrl || '',
-			timeoutSeconds: rawConfig?.timeoutSeconds || 60,
-			maxRetries: rawConfig?.maxRetries || 3,
-			userAgents: rawConfig?.userAgents || [],
+			timeoutSeconds,
+			maxRetries,
+			userAgents,
+			sources,
 		}
 	}
 
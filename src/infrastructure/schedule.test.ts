@@ -0,0 +1,211 @@
+import {
+	QuietHoursSchedule,
+	RuleScheduler,
+	TimezoneClock,
+	WEEKDAYS,
+} from './schedule'
+import { QuietHoursRuleDTO } from '../application/dto'
+
+describe('TimezoneClock.getStartOfDay', () => {
+	it.each([
+		['Asia/Taipei', '2024-05-01', '2024-04-30T16:00:00.000Z'],
+		['UTC', '2024-05-01', '2024-05-01T00:00:00.000Z'],
+		['America/New_York', '2024-05-01', '2024-05-01T04:00:00.000Z'],
+	])('starts %s days at local midnight', (timezone, date, start) => {
+		expect(new TimezoneClock(timezone).getStartOfDay(date).toISOString()).toBe(
+			start
+		)
+	})
+
+	it('uses the offset in effect at midnight on days the clocks change', () => {
+		const clock = new TimezoneClock('America/New_York')
+		expect(clock.getStartOfDay('2024-03-10').toISOString()).toBe(
+			'2024-03-10T05:00:00.000Z'
+		)
+		expect(clock.getStartOfDay('2024-11-04').toISOString()).toBe(
+			'2024-11-04T05:00:00.000Z'
+		)
+	})
+
+	it('starts days without a midnight when the clocks jump forward', () => {
+		// São Paulo skipped from 00:00 to 01:00 on this day
+		expect(
+			new TimezoneClock('America/Sao_Paulo')
+				.getStartOfDay('2018-11-04')
+				.toISOString()
+		).toBe('2018-11-04T03:00:00.000Z')
+	})
+})
+
+describe('QuietHoursSchedule', () => {
+	// 6 May 2024 was a Monday, Taipei is UTC+8 all year
+	const WEEKNIGHTS: QuietHoursRuleDTO = {
+		name: 'weeknights',
+		timeRange: '22:00-07:00',
+		days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+		holidays: [],
+	}
+
+	describe('with a window past midnight', () => {
+		const schedule = new QuietHoursSchedule([WEEKNIGHTS], 'Asia/Taipei')
+
+		it.each([
+			['Monday 23:00', '2024-05-06T15:00:00Z'],
+			['Tuesday 06:59', '2024-05-06T22:59:00Z'],
+			['Saturday 06:00 after a Friday night', '2024-05-10T22:00:00Z'],
+		])('is quiet on %s', (_, at) => {
+			expect(schedule.isQuiet('email', 'a@example.com', new Date(at))).toBe(
+				true
+			)
+		})
+
+		it.each([
+			['Monday 21:59', '2024-05-06T13:59:00Z'],
+			['Tuesday 07:00', '2024-05-06T23:00:00Z'],
+			['Sunday 06:00 after a Saturday night', '2024-05-11T22:00:00Z'],
+			['Monday 06:00 after a Sunday night', '2024-05-12T22:00:00Z'],
+		])('is not quiet on %s', (_, at) => {
+			expect(schedule.isQuiet('email', 'a@example.com', new Date(at))).toBe(
+				false
+			)
+		})
+	})
+
+	describe('with holidays', () => {
+		const schedule = new QuietHoursSchedule(
+			[
+				{
+					name: 'holidays',
+					timeRange: '22:00-07:00',
+					days: [],
+					holidays: ['2024-05-08', '10-10'],
+				},
+			],
+			'Asia/Taipei'
+		)
+
+		it('is quiet on the night of a dated holiday', () => {
+			expect(
+				schedule.isQuiet('email', undefined, new Date('2024-05-08T15:00:00Z'))
+			).toBe(true)
+		})
+
+		it('is quiet after midnight when the window began on the holiday', () => {
+			expect(
+				schedule.isQuiet('email', undefined, new Date('2024-05-08T22:00:00Z'))
+			).toBe(true)
+		})
+
+		it('is not quiet in the morning of the holiday', () => {
+			// That part of the window began the night before
+			expect(
+				schedule.isQuiet('email', undefined, new Date('2024-05-07T22:00:00Z'))
+			).toBe(false)
+		})
+
+		it('repeats month-day holidays every year', () => {
+			expect(
+				schedule.isQuiet('email', undefined, new Date('2025-10-10T15:00:00Z'))
+			).toBe(true)
+			expect(
+				schedule.isQuiet('email', undefined, new Date('2025-10-11T15:00:00Z'))
+			).toBe(false)
+		})
+	})
+
+	describe('with channels and recipients', () => {
+		const schedule = new QuietHoursSchedule(
+			[
+				{
+					...WEEKNIGHTS,
+					channels: ['email'],
+					recipients: ['a@example.com'],
+				},
+			],
+			'Asia/Taipei'
+		)
+		const monday = new Date('2024-05-06T15:00:00Z')
+
+		it('applies only to them', () => {
+			expect(schedule.isQuiet('email', 'a@example.com', monday)).toBe(true)
+			expect(schedule.isQuiet('email', 'b@example.com', monday)).toBe(false)
+			expect(schedule.isQuiet('slack', 'a@example.com', monday)).toBe(false)
+			expect(schedule.isQuiet('email', undefined, monday)).toBe(false)
+		})
+
+		it('reports the channels it applies to', () => {
+			expect(schedule.appliesTo('email')).toBe(true)
+			expect(schedule.appliesTo('slack')).toBe(false)
+		})
+	})
+})
+
+describe('RuleScheduler.getNextRunTime', () => {
+	// Taipei is UTC+8, 6 May 2024 was a Monday
+	const scheduler = new RuleScheduler(
+		[
+			{
+				name: 'office hours',
+				timeRange: '09:00-18:00',
+				intervalMinutes: 15,
+				days: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'],
+			},
+			{
+				name: 'night',
+				timeRange: '22:00-06:00',
+				intervalMinutes: 120,
+				days: [...WEEKDAYS],
+			},
+		],
+		60,
+		'Asia/Taipei'
+	)
+	const getNextRunTime = (from: string): string =>
+		scheduler.getNextRunTime(new Date(from)).toISOString()
+
+	it('uses the interval of the window it is in', () => {
+		// Monday 10:00
+		expect(getNextRunTime('2024-05-06T02:00:00Z')).toBe(
+			'2024-05-06T02:15:00.000Z'
+		)
+		// Monday 23:00
+		expect(getNextRunTime('2024-05-06T15:00:00Z')).toBe(
+			'2024-05-06T17:00:00.000Z'
+		)
+	})
+
+	it('falls back to the fixed interval outside every window', () => {
+		// Monday 19:00
+		expect(getNextRunTime('2024-05-06T11:00:00Z')).toBe(
+			'2024-05-06T12:00:00.000Z'
+		)
+	})
+
+	it('runs when a window with a shorter interval opens', () => {
+		// Monday 08:30, office hours start at 09:00
+		expect(getNextRunTime('2024-05-06T00:30:00Z')).toBe(
+			'2024-05-06T01:00:00.000Z'
+		)
+	})
+
+	it('runs when a window with a longer interval ends', () => {
+		// Tuesday 05:30, the night window ends at 06:00
+		expect(getNextRunTime('2024-05-06T21:30:00Z')).toBe(
+			'2024-05-06T22:00:00.000Z'
+		)
+	})
+
+	it('ignores windows on other weekdays', () => {
+		// Saturday 08:30
+		expect(getNextRunTime('2024-05-11T00:30:00Z')).toBe(
+			'2024-05-11T01:30:00.000Z'
+		)
+	})
+
+	it('runs on the minute a window opens, not an interval later', () => {
+		// Monday 08:59:30
+		expect(getNextRunTime('2024-05-06T00:59:30Z')).toBe(
+			'2024-05-06T01:00:00.000Z'
+		)
+	})
+})
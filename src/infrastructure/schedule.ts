@@ -0,0 +1,311 @@
+/**
+ * Time window evaluation for rule-based scheduling and quiet hours
+ */
+import { QuietHoursRuleDTO, ScheduleRuleDTO, Weekday } from '../application/dto'
+import { LocalCalendar, QuietHoursPolicy } from '../domain/services'
+
+export const WEEKDAYS: Weekday[] = [
+	'sunday',
+	'monday',
+	'tuesday',
+	'wednesday',
+	'thursday',
+	'friday',
+	'saturday',
+]
+
+const MINUTE_MS = 60 * 1000
+const MINUTES_PER_DAY = 24 * 60
+
+export interface TimeRange {
+	startMinute: number
+	endMinute: number
+}
+
+/**
+ * Wall-clock position of an instant in a timezone
+ */
+export interface LocalTime {
+	// YYYY-MM-DD
+	date: string
+	dayIndex: number
+	minuteOfDay: number
+}
+
+/**
+ * Parse "HH:MM-HH:MM" into minutes of day, or undefined when malformed.
+ * An end at or before the start wraps past midnight.
+ */
+export function parseTimeRange(timeRange: string): TimeRange | undefined {
+	const match = /^(\d{2}):(\d{2})-(\d{2}):(\d{2})$/.exec(timeRange.trim())
+	if (!match) {
+		return undefined
+	}
+
+	const [startHour, startMin, endHour, endMin] = match
+		.slice(1)
+		.map((part) => parseInt(part, 10)) as [number, number, number, number]
+	// 24:00 is allowed as an end of day
+	if (
+		startHour > 23 ||
+		startMin > 59 ||
+		endHour > 24 ||
+		endMin > 59 ||
+		(endHour === 24 && endMin !== 0)
+	) {
+		return undefined
+	}
+
+	return {
+		startMinute: startHour * 60 + startMin,
+		endMinute: endHour * 60 + endMin,
+	}
+}
+
+/**
+ * Check whether a local time falls into a range on one of the given days.
+ * Ranges include the start and exclude the end; the part of an overnight
+ * range after midnight belongs to the day it started on.
+ */
+export function isWithinTimeRange(
+	localTime: LocalTime,
+	range: TimeRange,
+	dayIndexes: number[]
+): boolean {
+	const { dayIndex, minuteOfDay } = localTime
+	const { startMinute, endMinute } = range
+
+	if (startMinute < endMinute) {
+		return (
+			dayIndexes.includes(dayIndex) &&
+			minuteOfDay >= startMinute &&
+			minuteOfDay < endMinute
+		)
+	}
+
+	if (minuteOfDay >= startMinute) {
+		return dayIndexes.includes(dayIndex)
+	}
+	const previousDay = (dayIndex + 6) % 7
+	return minuteOfDay < endMinute && dayIndexes.includes(previousDay)
+}
+
+export class TimezoneClock implements LocalCalendar {
+	private readonly formatter: Intl.DateTimeFormat
+
+	constructor(timezone: string) {
+		this.formatter = new Intl.DateTimeFormat('en-US', {
+			timeZone: timezone,
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			weekday: 'long',
+			hour: '2-digit',
+			minute: '2-digit',
+			hourCycle: 'h23',
+		})
+	}
+
+	public getLocalTime(date: Date): LocalTime {
+		let year = ''
+		let month = ''
+		let day = ''
+		let weekday = ''
+		let hour = 0
+		let minute = 0
+		for (const part of this.formatter.formatToParts(date)) {
+			if (part.type === 'year') year = part.value
+			if (part.type === 'month') month = part.value
+			if (part.type === 'day') day = part.value
+			if (part.type === 'weekday') weekday = part.value.toLowerCase()
+			if (part.type === 'hour') hour = parseInt(part.value, 10)
+			if (part.type === 'minute') minute = parseInt(part.value, 10)
+		}
+
+		return {
+			date: `${year}-${month}-${day}`,
+			dayIndex: WEEKDAYS.indexOf(weekday as Weekday),
+			minuteOfDay: (hour * 60 + minute) % MINUTES_PER_DAY,
+		}
+	}
+
+	public getStartOfDay(date: string): Date {
+		const midnightUtc = Date.parse(`${date}T00:00:00Z`)
+		// The second pass corrects for an offset change between UTC and local
+		// midnight
+		let start = midnightUtc
+		for (let pass = 0; pass < 2; pass++) {
+			const localTime = this.getLocalTime(new Date(start))
+			const localMidnight = Date.parse(`${localTime.date}T00:00:00Z`)
+			start -= localMidnight + localTime.minuteOfDay * MINUTE_MS - midnightUtc
+		}
+		// Days that skip midnight start when the clocks have jumped forward
+		const localTime = this.getLocalTime(new Date(start))
+		if (localTime.date < date) {
+			start += (MINUTES_PER_DAY - localTime.minuteOfDay) * MINUTE_MS
+		}
+		return new Date(start)
+	}
+}
+
+interface CompiledRule {
+	rule: ScheduleRuleDTO
+	range: TimeRange
+	dayIndexes: number[]
+}
+
+/**
+ * Picks run times from schedule rules, falling back to a fixed interval
+ * outside every rule
+ */
+export class RuleScheduler {
+	private readonly clock: TimezoneClock
+	private readonly rules: CompiledRule[]
+	private readonly fallbackMinutes: number
+
+	constructor(
+		rules: ScheduleRuleDTO[],
+		fallbackMinutes: number,
+		timezone: string
+	) {
+		this.clock = new TimezoneClock(timezone)
+		this.fallbackMinutes = fallbackMinutes
+		this.rules = rules.map((rule) => {
+			const range = parseTimeRange(rule.timeRange)
+			if (!range) {
+				throw new Error(`Invalid time range in schedule rule '${rule.name}'`)
+			}
+			return {
+				rule,
+				range,
+				dayIndexes: rule.days.map((day) => WEEKDAYS.indexOf(day)),
+			}
+		})
+	}
+
+	/**
+	 * The applicable rule with the shortest interval, if any
+	 */
+	public getActiveRule(at: Date): ScheduleRuleDTO | undefined {
+		const localTime = this.clock.getLocalTime(at)
+		let activeRule: ScheduleRuleDTO | undefined
+		for (const { rule, range, dayIndexes } of this.rules) {
+			if (
+				isWithinTimeRange(localTime, range, dayIndexes) &&
+				(!activeRule || rule.intervalMinutes < activeRule.intervalMinutes)
+			) {
+				activeRule = rule
+			}
+		}
+		return activeRule
+	}
+
+	public getIntervalMinutes(at: Date): number {
+		return this.getActiveRule(at)?.intervalMinutes ?? this.fallbackMinutes
+	}
+
+	/**
+	 * Next run after the given time: one interval later, or earlier when a
+	 * tighter rule window opens before then
+	 */
+	public getNextRunTime(from: Date): Date {
+		const intervalMinutes = this.getIntervalMinutes(from)
+		const regularRun = new Date(from.getTime() + intervalMinutes * MINUTE_MS)
+
+		// Walk minute boundaries looking for a window with a shorter interval
+		let candidate = Math.floor(from.getTime() / MINUTE_MS) * MINUTE_MS
+		candidate += MINUTE_MS
+		while (candidate < regularRun.getTime()) {
+			const candidateDate = new Date(candidate)
+			if (this.getIntervalMinutes(candidateDate) < intervalMinutes) {
+				return candidateDate
+			}
+			candidate += MINUTE_MS
+		}
+
+		return regularRun
+	}
+}
+
+interface CompiledQuietHoursRule {
+	rule: QuietHoursRuleDTO
+	range: TimeRange
+	dayIndexes: number[]
+}
+
+/**
+ * Quiet hours from configured rules. A rule applies on its weekdays and on
+ * its holidays, given as YYYY-MM-DD or as MM-DD for every year.
+ */
+export class QuietHoursSchedule implements QuietHoursPolicy {
+	private readonly clock: TimezoneClock
+	private readonly rules: CompiledQuietHoursRule[]
+
+	constructor(rules: QuietHoursRuleDTO[], timezone: string) {
+		this.clock = new TimezoneClock(timezone)
+		this.rules = rules.map((rule) => {
+			const range = parseTimeRange(rule.timeRange)
+			if (!range) {
+				throw new Error(`Invalid time range in quiet hours rule '${rule.name}'`)
+			}
+			return {
+				rule,
+				range,
+				dayIndexes: rule.days.map((day) => WEEKDAYS.indexOf(day)),
+			}
+		})
+	}
+
+	/**
+	 * Rules without channels or recipients apply to all of them
+	 */
+	public appliesTo(channel: string): boolean {
+		return this.rules.some(
+			({ rule }) => !rule.channels || rule.channels.includes(channel)
+		)
+	}
+
+	public isQuiet(
+		channel: string,
+		recipient: string | undefined,
+		at: Date
+	): boolean {
+		const localTime = this.clock.getLocalTime(at)
+		return this.rules.some(({ rule, range, dayIndexes }) => {
+			if (rule.channels && !rule.channels.includes(channel)) {
+				return false
+			}
+			if (
+				rule.recipients &&
+				(recipient === undefined || !rule.recipients.includes(recipient))
+			) {
+				return false
+			}
+
+			if (isWithinTimeRange(localTime, range, dayIndexes)) {
+				return true
+			}
+			if (rule.holidays.length === 0) {
+				return false
+			}
+
+			// The part of an overnight range after midnight belongs to the
+			// previous date
+			let windowDate = localTime.date
+			if (
+				range.startMinute >= range.endMinute &&
+				localTime.minuteOfDay < range.endMinute
+			) {
+				windowDate = this.clock.getLocalTime(
+					new Date(at.getTime() - (localTime.minuteOfDay + 1) * MINUTE_MS)
+				).date
+			}
+			const isHoliday = rule.holidays.some(
+				(holiday) => holiday === windowDate || holiday === windowDate.slice(5)
+			)
+			return (
+				isHoliday && isWithinTimeRange(localTime, range, [0, 1, 2, 3, 4, 5, 6])
+			)
+		})
+	}
+}
@@ -7,22 +7,119 @@ import * as nodemailer from 'nodemailer'
 import * as dns from 'dns'
 import * as net from 'net'
 import * as https from 'https'
+import * as crypto from 'crypto'
 import { promisify } from 'util'
-import { NewsItem, CrawlResult, NotificationResult } from '../domain/entities'
-import { CrawlerService, NotificationService } from '../domain/services'
-import { CrawlerConfigDTO, NotificationConfigDTO } from '../application/dto'
+import { NotificationTemplates } from './templates'
+import {
+	escapeHtml,
+	escapeMarkdown,
+	escapeSlackText,
+	sanitizeUrl,
+} from './encoding'
+import {
+	NewsItem,
+	CrawlResult,
+	NotificationResult,
+	normalizeLink,
+} from '../domain/entities'
+import {
+	CrawlOptions,
+	CrawlerService,
+	NotificationRequest,
+	NotificationService,
+} from '../domain/services'
+import {
+	FieldRuleDTO,
+	JsonApiConfigDTO,
+	NotificationConfigDTO,
+	ChatWebhookConfigDTO,
+	SourceConfigDTO,
+	TelegramConfigDTO,
+	WEBHOOK_PAYLOAD_VERSION,
+	WebhookConfigDTO,
+	WebhookEvent,
+	WebhookItemDTO,
+	WebhookPayloadDTO,
+	WebhookRunDTO,
+} from '../application/dto'
 
 const dnsLookup = promisify(dns.lookup)
 
-export class WebCrawlerService implements CrawlerService {
-	private readonly config: CrawlerConfigDTO
-	private readonly httpClient: AxiosInstance
+const DETAIL_ACCEPT =
+	'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8'
+
+// Page chrome that never belongs to an article body
+const NON_CONTENT_SELECTOR =
+	'script, style, noscript, iframe, form, nav, header, footer, aside, [role="navigation"]'
+
+/**
+ * Extract the main text of an article page, from the given selector or by
+ * picking the element holding the most paragraph text
+ */
+function extractArticleText(
+	$: cheerio.CheerioAPI,
+	contentSelector?: string
+): string {
+	$(NON_CONTENT_SELECTOR).remove()
+
+	let $content: cheerio.Cheerio<any>
+	if (contentSelector) {
+		$content = $(contentSelector)
+	} else {
+		$content = $('article, main, [role="main"]').first()
+		if ($content.length === 0) {
+			const scores = new Map<any, number>()
+			$('p').each((_, paragraph) => {
+				const parent = paragraph.parent
+				if (parent) {
+					const length = $(paragraph).text().trim().length
+					scores.set(parent, (scores.get(parent) || 0) + length)
+				}
+			})
+			let best: any = null
+			let bestScore = 0
+			for (const [element, score] of scores) {
+				if (score > bestScore) {
+					best = element
+					bestScore = score
+				}
+			}
+			$content = best ? $(best) : $('body')
+		}
+	}
+
+	// Keep block boundaries as line breaks before reading the text
+	$content.find('br').replaceWith('\n')
+	$content.find('p, div, li, h1, h2, h3, h4, h5, h6, tr').after('\n')
+
+	return $content
+		.map((_, element) => $(element).text())
+		.get()
+		.join('\n')
+		.replace(/[ \t\u00a0]+/g, ' ')
+		.replace(/ *\n[\s]*/g, '\n')
+		.trim()
+}
+
+/**
+ * Shared HTTP fetching for crawlers: DNS fallback, retries and user-agent rotation
+ */
+export abstract class HttpCrawlerService implements CrawlerService {
+	protected readonly config: SourceConfigDTO
+	protected readonly httpClient: AxiosInstance
+	protected readonly acceptHeader: string =
+		'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8'
+	protected readonly minContentLength: number = 1000
 	private readonly dnsCache: Map<string, { ip: string; timestamp: number }>
 	private readonly dnsCacheTtl: number = 300000 // 5 minutes in milliseconds
+	private readonly identityPattern?: RegExp
 
-	constructor(config: CrawlerConfigDTO) {
+	constructor(config: SourceConfigDTO) {
 		this.config = config
 		this.dnsCache = new Map()
+		if (config.identityPattern) {
+			this.identityPattern = new RegExp(config.identityPattern)
+		}
 
 		this.httpClient = axios.create({
 			timeout: config.timeoutSeconds * 1000,
@@ -46,16 +143,24 @@ export class WebCrawlerService implements CrawlerService {
 		})
 	}
 
-	public async crawl(): Promise<CrawlResult> {
+	public get sourceId(): string {
+		return this.config.id
+	}
+
+	public get tracksArticleEdits(): boolean {
+		return this.config.detail?.trackEdits ?? false
+	}
+
+	public async crawl(options: CrawlOptions = {}): Promise<CrawlResult> {
 		const startTime = Date.now()
 		const errors: string[] = []
 		let items: NewsItem[] = []
 		const newItems: NewsItem[] = []
 
 		try {
-			// Fetch page content
-			const htmlContent = await this.fetchPageContent()
-			if (!htmlContent) {
+			// Fetch and parse content
+			const fetchedItems = await this.fetchItems(options)
+			if (!fetchedItems) {
 				errors.push('Failed to fetch page content')
 				return new CrawlResult(
 					false,
@@ -63,14 +168,22 @@ export class WebCrawlerService implements CrawlerService {
 					[],
 					errors,
 					Date.now() - startTime,
-					new Date()
+					new Date(),
+					false,
+					this.config.id
 				)
 			}
 
-			// Parse HTML and extract news items
-			items = this.extractNewsItems(htmlContent)
+			// Remove duplicates based on ID
+			const uniqueItems = new Map<string, NewsItem>()
+			for (const item of fetchedItems) {
+				if (!uniqueItems.has(item.id)) {
+					uniqueItems.set(item.id, item)
+				}
+			}
+			items = Array.from(uniqueItems.values())
 
-			console.log(`Crawled ${items.length} items`)
+			console.log(`Crawled ${items.length} items from ${this.config.name}`)
 
 			return new CrawlResult(
 				true,
@@ -78,7 +191,9 @@ export class WebCrawlerService implements CrawlerService {
 				newItems, // Will be filled by repository
 				errors,
 				Date.now() - startTime,
-				new Date()
+				new Date(),
+				false,
+				this.config.id
 			)
 		} catch (error) {
 			const errorMessage =
@@ -92,19 +207,111 @@ export class WebCrawlerService implements CrawlerService {
 				newItems,
 				errors,
 				Date.now() - startTime,
-				new Date()
+				new Date(),
+				false,
+				this.config.id
 			)
 		}
 	}
 
-	private async fetchPageContent(): Promise<string> {
+	/**
+	 * Turn fetched content into news items
+	 */
+	protected abstract parseItems(content: string): NewsItem[]
+
+	/**
+	 * Key that identifies an item across edits: the part of the normalised
+	 * link matched by the source's identity pattern, or the whole link
+	 */
+	protected getIdentityKey(link: string): string {
+		const normalizedLink = normalizeLink(link)
+		const match = this.identityPattern?.exec(normalizedLink)
+		return match ? match[1] ?? match[0] : normalizedLink
+	}
+
+	/**
+	 * Fetch and parse the source, null when nothing could be fetched
+	 */
+	protected async fetchItems(
+		_options: CrawlOptions
+	): Promise<NewsItem[] | null> {
+		const content = await this.fetchPageContent()
+		if (!content) {
+			return null
+		}
+		return this.parseItems(content)
+	}
+
+	/**
+	 * Whether a paginated crawl can stop because a page holds only known items
+	 */
+	protected async isKnownPage(
+		pageItems: NewsItem[],
+		options: CrawlOptions
+	): Promise<boolean> {
+		if (!options.isKnownPage || pageItems.length === 0) {
+			return false
+		}
+		return await options.isKnownPage(pageItems)
+	}
+
+	public async fetchDetails(items: NewsItem[]): Promise<NewsItem[]> {
+		const detail = this.config.detail
+		if (!detail || items.length === 0) {
+			return items
+		}
+
+		console.log(
+			`Fetching ${items.length} article pages from ${this.config.name} (concurrency: ${detail.concurrency})`
+		)
+
+		const detailedItems = [...items]
+		let nextIndex = 0
+		const worker = async (): Promise<void> => {
+			while (nextIndex < items.length) {
+				const index = nextIndex++
+				const item = items[index]
+				if (!item) continue
+
+				try {
+					const html = await this.fetchPageContent(item.link, DETAIL_ACCEPT)
+					const content = html
+						? extractArticleText(cheerio.load(html), detail.contentSelector)
+						: ''
+					if (content) {
+						detailedItems[index] = item.withContent(
+							content.substring(0, detail.maxContentLength)
+						)
+					} else {
+						console.warn(`⚠️ No article content found at ${item.link}`)
+					}
+				} catch (error) {
+					console.error(`Failed to fetch article ${item.link}:`, error)
+				}
+
+				// Be polite to the source between requests
+				await this.sleep(detail.delayMs)
+			}
+		}
+
+		await Promise.all(
+			Array.from({ length: Math.min(detail.concurrency, items.length) }, () =>
+				worker()
+			)
+		)
+		return detailedItems
+	}
+
+	protected async fetchPageContent(
+		pageUrl: string = this.config.url,
+		acceptHeader: string = this.acceptHeader
+	): Promise<string> {
 		// Test DNS resolution first - enhanced like Python version
-		const dnsResult = await this.testDnsResolutionEnhanced()
+		const dnsResult = await this.testDnsResolutionEnhanced(pageUrl)
 
 		const headers = {
 			'User-Agent': this.getRandomUserAgent(),
-			Accept:
-				'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+			Accept: acceptHeader,
 			'Accept-Language': 'zh-TW,zh;q=0.9,en;q=0.8',
 			'Accept-Encoding': 'gzip, deflate, br',
 			Connection: 'keep-alive',
@@ -117,19 +324,16 @@ export class WebCrawlerService implements CrawlerService {
 
 		if (dnsResult.success && dnsResult.resolvedIp) {
 			// Use resolved IP like Python version
-			const url = new URL(this.config.targetUrl)
+			const url = new URL(pageUrl)
 			const originalHostname = url.hostname
-			targetUrl = this.config.targetUrl.replace(
-				originalHostname,
-				dnsResult.resolvedIp
-			)
+			targetUrl = pageUrl.replace(originalHostname, dnsResult.resolvedIp)
 			targetHeaders['Host'] = originalHostname
 			console.log(
 				`Using resolved IP address: ${dnsResult.resolvedIp} (Host: ${originalHostname})`
 			)
 		} else {
 			// Use original URL
-			targetUrl = this.config.targetUrl
+			targetUrl = pageUrl
 			console.log('Using original URL')
 		}
 
@@ -143,6 +347,7 @@ export class WebCrawlerService implements CrawlerService {
 				const response = await this.httpClient.get(targetUrl, {
 					headers: targetHeaders,
 					maxRedirects: 5,
+					responseType: 'text',
 					httpsAgent: dnsResult.resolvedIp
 						? new https.Agent({
 								rejectUnauthorized: false, // Disable SSL verification when using IP like Python
@@ -151,7 +356,7 @@ export class WebCrawlerService implements CrawlerService {
 				})
 
 				// Check if we got valid content
-				if (response.data && response.data.length > 1000) {
+				if (response.data && response.data.length > this.minContentLength) {
 					console.log(`Successfully fetched ${response.data.length} characters`)
 					return response.data
 				} else {
@@ -173,12 +378,12 @@ export class WebCrawlerService implements CrawlerService {
 		return ''
 	}
 
-	private async testDnsResolutionEnhanced(): Promise<{
+	private async testDnsResolutionEnhanced(pageUrl: string): Promise<{
 		success: boolean
 		resolvedIp?: string
 	}> {
 		try {
-			const url = new URL(this.config.targetUrl)
+			const url = new URL(pageUrl)
 			const hostname = url.hostname
 
 			if (!hostname) {
@@ -214,95 +419,6 @@ export class WebCrawlerService implements CrawlerService {
 		}
 	}
 
-	private extractNewsItems(html: string): NewsItem[] {
-		const $ = cheerio.load(html)
-		const newsItems: NewsItem[] = []
-
-		// Try multiple selector strategies
-		const selectors = [
-			'a[href*="Pages/Detail.aspx"]',
-			'a[href*="topic"]',
-			'.news-item a',
-			'.topic-item a',
-			'li a[href*="Detail.aspx"]',
-			'div a[href*="Detail.aspx"]',
-		]
-
-		for (const selector of selectors) {
-			const elements = $(selector)
-			if (elements.length > 0) {
-				console.log(
-					`Found ${elements.length} elements with selector: ${selector}`
-				)
-				elements.each((_, element) => {
-					const item = this.extractItemFromElement($, element)
-					if (item) {
-						newsItems.push(item)
-					}
-				})
-				break // Use first successful selector
-			}
-		}
-
-		// Remove duplicates based on ID
-		const uniqueItems = new Map<string, NewsItem>()
-		for (const item of newsItems) {
-			if (!uniqueItems.has(item.id)) {
-				uniqueItems.set(item.id, item)
-			}
-		}
-
-		return Array.from(uniqueItems.values())
-	}
-
-	private extractItemFromElement(
-		$: cheerio.CheerioAPI,
-		element: any
-	): NewsItem | null {
-		try {
-			const $element = $(element)
-
-			// Extract link
-			let href = $element.attr('href')
-			if (!href) return null
-
-			if (href.startsWith('/')) {
-				href = new URL(href, this.config.targetUrl).href
-			} else if (!href.startsWith('http')) {
-				href = new URL(href, this.config.targetUrl).href
-			}
-
-			// Extract title
-			const title = $element.text().trim()
-			if (!title || title.length < 5) {
-				return null
-			}
-
-			// Try to find date in parent elements
-			let date: string | undefined
-			let $parent = $element.parent()
-			for (let i = 0; i < 3; i++) {
-				// Check up to 3 parent levels
-				if ($parent.length > 0) {
-					const $dateElem = $parent.find('span, div').filter((_, el) => {
-						const className = $(el).attr('class') || ''
-						return className.toLowerCase().includes('date')
-					})
-					if ($dateElem.length > 0) {
-						date = $dateElem.first().text().trim()
-						break
-					}
-					$parent = $parent.parent()
-				}
-			}
-
-			return NewsItem.create(title, href, date, '')
-		} catch (error) {
-			console.error('Error extracting item from element:', error)
-			return null
-		}
-	}
-
 	public async testConnection(): Promise<boolean> {
 		// Test DNS resolution first
 		const dnsSuccess = await this.testDnsResolution()
@@ -322,7 +438,7 @@ export class WebCrawlerService implements CrawlerService {
 					'Cache-Control': 'no-cache',
 				}
 
-				const response = await this.httpClient.get(this.config.targetUrl, {
+				const response = await this.httpClient.get(this.config.url, {
 					headers,
 					timeout: 30000,
 					maxRedirects: 5,
@@ -350,7 +466,7 @@ export class WebCrawlerService implements CrawlerService {
 
 	private async testDnsResolution(): Promise<boolean> {
 		try {
-			const url = new URL(this.config.targetUrl)
+			const url = new URL(this.config.url)
 			const hostname = url.hostname
 
 			if (!hostname) {
@@ -513,7 +629,7 @@ export class WebCrawlerService implements CrawlerService {
 		)
 	}
 
-	private getRandomUserAgent(): string {
+	protected getRandomUserAgent(): string {
 		const userAgents = this.config.userAgents
 		const randomIndex = Math.floor(Math.random() * userAgents.length)
 		const userAgent = userAgents[randomIndex]
@@ -523,7 +639,7 @@ export class WebCrawlerService implements CrawlerService {
 		return userAgent
 	}
 
-	private sleep(ms: number): Promise<void> {
+	protected sleep(ms: number): Promise<void> {
 		return new Promise((resolve) => setTimeout(resolve, ms))
 	}
 
@@ -554,205 +670,1656 @@ export class WebCrawlerService implements CrawlerService {
 	}
 }
 
-export class EmailNotificationService implements NotificationService {
-	private readonly config: NotificationConfigDTO
-	private transporter: nodemailer.Transporter
-
-	constructor(config: NotificationConfigDTO) {
-		this.config = config
-		this.transporter = nodemailer.createTransport({
-			host: config.smtpServer,
-			port: config.smtpPort,
-			secure: false, // true for 465, false for other ports
-			auth: {
-				user: config.username,
-				pass: config.password,
-			},
-		})
+/**
+ * Crawler for HTML list pages, driven by the source's extraction rules
+ */
+export class WebCrawlerService extends HttpCrawlerService {
+	protected parseItems(content: string): NewsItem[] {
+		return this.extractNewsItems(cheerio.load(content), this.config.url)
 	}
 
-	public async sendNotification(
-		title: string,
-		message: string,
-		items: NewsItem[] = [],
-		isDevNotification: boolean = false
-	): Promise<NotificationResult> {
-		if (!this.config.enabled) {
-			return new NotificationResult(
-				false,
-				'email',
-				'Email notification is disabled',
-				new Date(),
-				'Email notification is disabled'
-			)
-		}
+	protected override async fetchItems(
+		options: CrawlOptions
+	): Promise<NewsItem[] | null> {
+		const maxPages = this.config.pagination?.maxPages ?? 1
+		const items: NewsItem[] = []
+		const visitedUrls = new Set<string>()
+		let pageUrl: string | null = this.config.url
+
+		for (let pageIndex = 0; pageIndex < maxPages && pageUrl; pageIndex++) {
+			visitedUrls.add(pageUrl)
+			const content = await this.fetchPageContent(pageUrl)
+			if (!content) {
+				if (pageIndex === 0) {
+					return null
+				}
+				console.log(`Stopping pagination: page ${pageIndex + 1} is empty`)
+				break
+			}
 
-		try {
-			// Create HTML and text content
-			const htmlContent = this.createHtmlContent(title, message, items)
-			const textContent = this.createTextContent(title, message, items)
+			const $ = cheerio.load(content)
+			const pageItems = this.extractNewsItems($, pageUrl)
+			if (pageItems.length === 0) {
+				break
+			}
+			items.push(...pageItems)
 
-			// Determine recipients based on notification type
-			let recipients: string[]
-			if (isDevNotification && this.config.deploymentNotification?.enabled) {
-				// Send to dev email only
-				recipients = [this.config.deploymentNotification.devEmail]
-				console.log(`🔧 Sending deployment notification to dev: ${recipients}`)
-			} else {
-				// Send to all recipients
-				recipients = this.config.toEmails
-				console.log(`📧 Sending notification to all recipients: ${recipients}`)
+			if (pageIndex + 1 >= maxPages) {
+				break
+			}
+			if (await this.isKnownPage(pageItems, options)) {
+				console.log(
+					`Stopping pagination: page ${pageIndex + 1} has no new items`
+				)
+				break
 			}
 
-			// Send email to each recipient individually
-			let successfulSends = 0
-			const failedSends: string[] = []
+			pageUrl = this.getNextPageUrl($, pageUrl, pageIndex + 1)
+			if (pageUrl && visitedUrls.has(pageUrl)) {
+				console.log(`Stopping pagination: ${pageUrl} was already fetched`)
+				break
+			}
+		}
 
-			for (const toEmail of recipients) {
-				try {
-					const mailOptions = {
-						from: this.config.fromEmail,
-						to: toEmail,
-						subject: title,
-						text: textContent,
-						html: htmlContent,
-					}
+		return items
+	}
 
-					await this.transporter.sendMail(mailOptions)
-					successfulSends++
-					console.log(`✅ Email sent successfully to: ${toEmail}`)
-				} catch (error) {
-					const errorMessage =
-						error instanceof Error ? error.message : String(error)
-					failedSends.push(`${toEmail}: ${errorMessage}`)
-					console.error(`❌ Failed to send email to ${toEmail}:`, errorMessage)
-				}
+	/**
+	 * URL of the page after the current one, null when there is none
+	 */
+	private getNextPageUrl(
+		$: cheerio.CheerioAPI,
+		currentUrl: string,
+		nextPageIndex: number
+	): string | null {
+		const pagination = this.config.pagination
+		if (pagination?.urlTemplate) {
+			return pagination.urlTemplate.replace(
+				/\{page\}/g,
+				String(pagination.firstPage + nextPageIndex)
+			)
+		}
+		if (pagination?.nextSelector) {
+			const href = $(pagination.nextSelector).first().attr('href')
+			if (href && !href.startsWith('javascript:') && href !== '#') {
+				return new URL(href, currentUrl).href
 			}
+		}
+		return null
+	}
 
-			// Return result based on success/failure
-			if (successfulSends === recipients.length) {
-				return new NotificationResult(
-					true,
-					'email',
-					`Email sent to all ${successfulSends} recipients`,
-					new Date()
-				)
-			} else if (successfulSends > 0) {
-				return new NotificationResult(
-					true,
-					'email',
-					`Email sent to ${successfulSends}/${
-						recipients.length
-					} recipients. Failed: ${failedSends.join(', ')}`,
-					new Date()
-				)
-			} else {
-				return new NotificationResult(
-					false,
-					'email',
-					`Failed to send to all recipients: ${failedSends.join(', ')}`,
-					new Date(),
-					`Failed to send to all recipients: ${failedSends.join(', ')}`
+	private extractNewsItems($: cheerio.CheerioAPI, pageUrl: string): NewsItem[] {
+		const newsItems: NewsItem[] = []
+
+		// Try each configured list-item selector
+		for (const selector of this.config.extraction.itemSelectors) {
+			const elements = $(selector)
+			if (elements.length > 0) {
+				console.log(
+					`Found ${elements.length} elements with selector: ${selector}`
 				)
+				elements.each((_, element) => {
+					const item = this.extractItemFromElement($, element, pageUrl)
+					if (item) {
+						newsItems.push(item)
+					}
+				})
+				break // Use first successful selector
 			}
-		} catch (error) {
-			const errorMessage =
-				error instanceof Error ? error.message : String(error)
-			return new NotificationResult(
-				false,
-				'email',
-				'',
-				new Date(),
-				errorMessage
-			)
 		}
-	}
 
-	public async testConnection(): Promise<boolean> {
-		if (!this.config.enabled) {
-			return false
-		}
+		return newsItems
+	}
 
+	private extractItemFromElement(
+		$: cheerio.CheerioAPI,
+		element: any,
+		pageUrl: string
+	): NewsItem | null {
 		try {
-			await this.transporter.verify()
-			return true
+			const rules = this.config.extraction
+			const $element = $(element)
+
+			// Extract link
+			const href = this.extractField($element, rules.link)
+			if (!href) return null
+			const link = new URL(href, pageUrl).href
+
+			// Extract title
+			const title = this.extractField($element, rules.title)
+			if (!title || title.length < rules.minTitleLength) {
+				return null
+			}
+
+			const date = rules.date
+				? this.extractField($element, rules.date)
+				: undefined
+			const summary = rules.summary
+				? this.extractField($element, rules.summary)
+				: undefined
+
+			return NewsItem.create(
+				title,
+				link,
+				date,
+				summary || '',
+				this.config.id,
+				this.getIdentityKey(link)
+			)
 		} catch (error) {
-			console.error('SMTP connection test failed:', error)
-			return false
+			console.error('Error extracting item from element:', error)
+			return null
 		}
 	}
 
-	private createHtmlContent(
-		title: string,
-		message: string,
-		items: NewsItem[]
-	): string {
-		let html = `
-    <html>
-    <head>
-        <meta charset="utf-8">
-        <style>
-            body { font-family: Arial, sans-serif; line-height: 1.6; color: #333; }
-            .header { background-color: #f4f4f4; padding: 20px; border-radius: 5px; }
-            .news-item { margin: 15px 0; padding: 15px; border-left: 4px solid #007bff; background-color: #f8f9fa; }
-            .news-title { font-weight: bold; color: #007bff; }
-            .news-link { color: #6c757d; font-size: 0.9em; }
-            .news-date { color: #6c757d; font-size: 0.8em; }
-        </style>
-    </head>
-    <body>
-        <div class="header">
-            <h2>${title}</h2>
-            <p>${message}</p>
-        </div>
-    `
-
-		if (items.length > 0) {
-			html += '<h3>New Message Items:</h3>'
-			for (const item of items) {
-				if (item) {
-					html += `
-          <div class="news-item">
-              <div class="news-title">${item.title}</div>
-              <div class="news-link"><a href="${item.link}">${
-						item.link
-					}</a></div>
-              ${item.date ? `<div class="news-date">${item.date}</div>` : ''}
-          </div>
-          `
-				}
+	/**
+	 * Read a single field from a list item according to its rule
+	 */
+	private extractField(
+		$element: cheerio.Cheerio<any>,
+		rule: FieldRuleDTO
+	): string | undefined {
+		let $target = rule.selector
+			? $element.find(rule.selector).first()
+			: $element
+
+		// Fall back to ancestors, e.g. a date sitting next to the link
+		if ($target.length === 0 && rule.selector && rule.searchAncestors) {
+			let $parent = $element.parent()
+			for (let i = 0; i < rule.searchAncestors && $parent.length > 0; i++) {
+				$target = $parent.find(rule.selector).first()
+				if ($target.length > 0) break
+				$parent = $parent.parent()
 			}
 		}
+		if ($target.length === 0) {
+			return undefined
+		}
 
-		html += `
-    </body>
-    </html>
-    `
-		return html
+		const rawValue = rule.attribute
+			? $target.attr(rule.attribute)
+			: $target.text()
+		let value = rawValue?.trim()
+		if (!value || !rule.pattern) {
+			return value || undefined
+		}
+
+		const pattern = new RegExp(rule.pattern)
+		if (rule.replacement !== undefined) {
+			value = value.replace(pattern, rule.replacement).trim()
+		} else {
+			const match = value.match(pattern)
+			value = match ? (match[1] ?? match[0]).trim() : undefined
+		}
+		return value || undefined
+	}
+}
+
+/**
+ * Crawler for RSS 2.0 and Atom feeds
+ */
+export class FeedCrawlerService extends HttpCrawlerService {
+	protected override readonly acceptHeader: string =
+		'application/rss+xml,application/atom+xml,application/xml;q=0.9,text/xml;q=0.8,*/*;q=0.5'
+	protected override readonly minContentLength: number = 0
+
+	protected parseItems(content: string): NewsItem[] {
+		return this.parseFeed(content)
+	}
+
+	/**
+	 * Parse an RSS 2.0 or Atom document into news items
+	 */
+	public parseFeed(xml: string): NewsItem[] {
+		const $ = cheerio.load(xml, { xmlMode: true })
+		const items: NewsItem[] = []
+
+		const isAtom = $('feed').length > 0
+		const entries = isAtom ? $('feed > entry') : $('channel > item')
+		console.log(
+			`Found ${entries.length} ${isAtom ? 'Atom entries' : 'RSS items'}`
+		)
+
+		entries.each((_, element) => {
+			const $entry = $(element)
+			const item = isAtom
+				? this.parseAtomEntry($entry)
+				: this.parseRssItem($entry)
+			if (item) {
+				items.push(item)
+			}
+		})
+
+		return items
+	}
+
+	private parseRssItem($item: cheerio.Cheerio<any>): NewsItem | null {
+		const title = this.childText($item, 'title')
+		// A permalink guid stands in for a missing link
+		const guid = $item.children('guid').first()
+		const link =
+			this.childText($item, 'link') ||
+			(guid.attr('isPermaLink') !== 'false' ? guid.text().trim() : '')
+
+		return this.createItem(
+			title,
+			link,
+			this.childText($item, 'pubDate') || this.childText($item, 'dc\\:date'),
+			this.childText($item, 'description')
+		)
+	}
+
+	private parseAtomEntry($entry: cheerio.Cheerio<any>): NewsItem | null {
+		const title = this.childText($entry, 'title')
+		const links = $entry.children('link')
+		const alternate = links.filter(
+			(_, link) => (link.attribs?.['rel'] || 'alternate') === 'alternate'
+		)
+		const link = (alternate.length > 0 ? alternate : links).first().attr('href')
+
+		return this.createItem(
+			title,
+			link || '',
+			this.childText($entry, 'updated') || this.childText($entry, 'published'),
+			this.childText($entry, 'summary') || this.childText($entry, 'content')
+		)
+	}
+
+	private createItem(
+		title: string,
+		link: string,
+		date: string,
+		description: string
+	): NewsItem | null {
+		if (!title || !link) {
+			return null
+		}
+
+		try {
+			const absoluteLink = new URL(link, this.config.url).href
+			return NewsItem.create(
+				title,
+				absoluteLink,
+				date || undefined,
+				this.stripMarkup(description),
+				this.config.id,
+				this.getIdentityKey(absoluteLink)
+			)
+		} catch (error) {
+			console.error('Error creating item from feed entry:', error)
+			return null
+		}
+	}
+
+	private childText($parent: cheerio.Cheerio<any>, selector: string): string {
+		return $parent.children(selector).first().text().trim()
+	}
+
+	/**
+	 * Descriptions often carry escaped HTML, keep only the text
+	 */
+	private stripMarkup(content: string): string {
+		if (!content) {
+			return ''
+		}
+		return cheerio.load(content).root().text().replace(/\s+/g, ' ').trim()
+	}
+}
+
+/**
+ * Crawler for JSON endpoints, mapping items through configured JSON paths
+ */
+export class JsonApiCrawlerService extends HttpCrawlerService {
+	protected override readonly acceptHeader: string =
+		'application/json,text/plain;q=0.9,*/*;q=0.8'
+	protected override readonly minContentLength: number = 0
+
+	private get api(): JsonApiConfigDTO {
+		if (!this.config.api) {
+			throw new Error(`Source '${this.config.id}' has no api configuration`)
+		}
+		return this.config.api
+	}
+
+	protected override async fetchItems(
+		options: CrawlOptions
+	): Promise<NewsItem[] | null> {
+		const maxPages = this.api.pagination?.maxPages ?? 1
+		const items: NewsItem[] = []
+
+		for (let pageIndex = 0; pageIndex < maxPages; pageIndex++) {
+			const content = await this.fetchPageContent(this.buildPageUrl(pageIndex))
+			if (!content) {
+				if (pageIndex === 0) {
+					return null
+				}
+				console.log(`Stopping pagination: page ${pageIndex + 1} is empty`)
+				break
+			}
+
+			const pageItems = this.parseItems(content)
+			if (pageItems.length === 0) {
+				break
+			}
+			items.push(...pageItems)
+
+			if (
+				pageIndex + 1 < maxPages &&
+				(await this.isKnownPage(pageItems, options))
+			) {
+				console.log(
+					`Stopping pagination: page ${pageIndex + 1} has no new items`
+				)
+				break
+			}
+		}
+
+		return items
+	}
+
+	protected parseItems(content: string): NewsItem[] {
+		const data: unknown = JSON.parse(content)
+		const rawItems = getJsonPath(data, this.api.itemsPath)
+		if (!Array.isArray(rawItems)) {
+			throw new Error(
+				`JSON path '${this.api.itemsPath}' does not point to an array`
+			)
+		}
+
+		const items: NewsItem[] = []
+		for (const rawItem of rawItems) {
+			const item = this.mapItem(rawItem)
+			if (item) {
+				items.push(item)
+			}
+		}
+		console.log(`Mapped ${items.length}/${rawItems.length} JSON items`)
+		return items
+	}
+
+	private mapItem(rawItem: unknown): NewsItem | null {
+		const { fields, linkTemplate } = this.api
+
+		const title = this.readField(rawItem, fields.title)
+		const link = linkTemplate
+			? this.fillLinkTemplate(linkTemplate, rawItem)
+			: this.readField(rawItem, fields.link)
+		if (!title || !link) {
+			return null
+		}
+
+		try {
+			const absoluteLink = new URL(link, this.config.url).href
+			// A stable id from the API beats anything derived from the link
+			const apiId = this.readField(rawItem, fields.id)
+			return NewsItem.create(
+				title,
+				absoluteLink,
+				this.readField(rawItem, fields.date) || undefined,
+				this.readField(rawItem, fields.summary),
+				this.config.id,
+				apiId ? `id:${apiId}` : this.getIdentityKey(absoluteLink)
+			)
+		} catch (error) {
+			console.error('Error creating item from JSON:', error)
+			return null
+		}
+	}
+
+	private readField(rawItem: unknown, path: string | undefined): string {
+		if (path === undefined) {
+			return ''
+		}
+		const value = getJsonPath(rawItem, path)
+		return value === undefined || value === null ? '' : String(value).trim()
+	}
+
+	/**
+	 * Replace {path} placeholders with URL-encoded item values
+	 */
+	private fillLinkTemplate(template: string, rawItem: unknown): string {
+		let missing = false
+		const link = template.replace(/\{([^}]+)\}/g, (_, path: string) => {
+			const value = this.readField(rawItem, path.trim())
+			if (!value) {
+				missing = true
+			}
+			return encodeURIComponent(value)
+		})
+		return missing ? '' : link
+	}
+
+	private buildPageUrl(pageIndex: number): string {
+		const pagination = this.api.pagination
+		if (!pagination) {
+			return this.config.url
+		}
+
+		const url = new URL(this.config.url)
+		const value =
+			pagination.type === 'offset'
+				? pagination.start + pageIndex * pagination.pageSize
+				: pagination.start + pageIndex
+		url.searchParams.set(pagination.param, String(value))
+		if (pagination.sizeParam && pagination.pageSize > 0) {
+			url.searchParams.set(pagination.sizeParam, String(pagination.pageSize))
+		}
+		return url.href
+	}
+}
+
+/**
+ * Resolve a dot path such as "data.items[0].title", empty path is the value itself
+ */
+function getJsonPath(value: unknown, path: string): unknown {
+	const keys = path.match(/[^.[\]]+/g) || []
+	let current = value
+	for (const key of keys) {
+		if (current === null || typeof current !== 'object') {
+			return undefined
+		}
+		current = (current as Record<string, unknown>)[key]
+	}
+	return current
+}
+
+/**
+ * Short note on what an edit changed, for chat channels that list items
+ * without templates
+ */
+function describeUpdate(item: NewsItem): string | undefined {
+	if (!item.changes) {
+		return undefined
+	}
+	const { title, date, body } = item.changes
+	const parts: string[] = []
+	if (title) parts.push('title')
+	if (date) parts.push('date')
+	if (body) parts.push('text')
+	return `Updated ${parts.join(', ')}`
+}
+
+/**
+ * Group items by source, keeping the order in which sources first appear
+ */
+function groupItemsBySource(items: NewsItem[]): Map<string, NewsItem[]> {
+	const groups = new Map<string, NewsItem[]>()
+	for (const item of items) {
+		const group = groups.get(item.sourceId) || []
+		group.push(item)
+		groups.set(item.sourceId, group)
+	}
+	return groups
+}
+
+export class EmailNotificationService implements NotificationService {
+	public readonly channel = 'email'
+	public readonly recipients: string[]
+	private readonly config: NotificationConfigDTO
+	private readonly templates: NotificationTemplates
+	private transporter: nodemailer.Transporter
+
+	constructor(config: NotificationConfigDTO, templates: NotificationTemplates) {
+		this.config = config
+		this.recipients = config.toEmails
+		this.templates = templates
+		this.transporter = nodemailer.createTransport({
+			host: config.smtpServer,
+			port: config.smtpPort,
+			secure: false, // true for 465, false for other ports
+			auth: {
+				user: config.username,
+				pass: config.password,
+			},
+		})
+	}
+
+	public async sendNotification(
+		request: NotificationRequest
+	): Promise<NotificationResult> {
+		if (!this.config.enabled) {
+			return new NotificationResult(
+				false,
+				'email',
+				'Email notification is disabled',
+				new Date(),
+				'Email notification is disabled'
+			)
+		}
+
+		try {
+			// Render subject, HTML and text content
+			const {
+				subject,
+				'body.html': htmlContent,
+				'body.txt': textContent,
+			} = this.templates.render(this.channel, request, [
+				'body.html',
+				'body.txt',
+			])
+
+			// Determine recipients based on notification type
+			let recipients: string[]
+			if (
+				request.isDevNotification &&
+				this.config.deploymentNotification?.enabled
+			) {
+				// Send to dev email only
+				recipients = [this.config.deploymentNotification.devEmail]
+				console.log(`🔧 Sending deployment notification to dev: ${recipients}`)
+			} else {
+				// Send to all recipients, or the ones the request is limited to
+				recipients = request.recipients
+					? this.config.toEmails.filter((toEmail) =>
+							request.recipients?.includes(toEmail)
+					  )
+					: this.config.toEmails
+				console.log(`📧 Sending notification to recipients: ${recipients}`)
+			}
+
+			// Send email to each recipient individually
+			let successfulSends = 0
+			const failedSends: string[] = []
+			const messageIds: string[] = []
+
+			for (const toEmail of recipients) {
+				try {
+					const mailOptions = {
+						from: this.config.fromEmail,
+						to: toEmail,
+						subject,
+						text: textContent,
+						html: htmlContent,
+					}
+
+					const info = await this.transporter.sendMail(mailOptions)
+					if (info.messageId) {
+						messageIds.push(info.messageId)
+					}
+					successfulSends++
+					console.log(`✅ Email sent successfully to: ${toEmail}`)
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error ? error.message : String(error)
+					failedSends.push(`${toEmail}: ${errorMessage}`)
+					console.error(`❌ Failed to send email to ${toEmail}:`, errorMessage)
+				}
+			}
+
+			// Return result based on success/failure
+			if (successfulSends === recipients.length) {
+				return new NotificationResult(
+					true,
+					'email',
+					`Email sent to all ${successfulSends} recipients`,
+					new Date(),
+					undefined,
+					messageIds.join(', ') || undefined
+				)
+			} else if (successfulSends > 0) {
+				return new NotificationResult(
+					true,
+					'email',
+					`Email sent to ${successfulSends}/${
+						recipients.length
+					} recipients. Failed: ${failedSends.join(', ')}`,
+					new Date(),
+					undefined,
+					messageIds.join(', ') || undefined
+				)
+			} else {
+				return new NotificationResult(
+					false,
+					'email',
+					`Failed to send to all recipients: ${failedSends.join(', ')}`,
+					new Date(),
+					`Failed to send to all recipients: ${failedSends.join(', ')}`
+				)
+			}
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			return new NotificationResult(
+				false,
+				'email',
+				'',
+				new Date(),
+				errorMessage
+			)
+		}
+	}
+
+	public async testConnection(): Promise<boolean> {
+		if (!this.config.enabled) {
+			return false
+		}
+
+		try {
+			await this.transporter.verify()
+			return true
+		} catch (error) {
+			console.error('SMTP connection test failed:', error)
+			return false
+		}
+	}
+}
+
+/**
+ * One post of a chat message and the items it carries
+ */
+interface ChatPayload {
+	body: unknown
+	items: NewsItem[]
+}
+
+/**
+ * Shared delivery for chat apps that take posts on an incoming webhook URL
+ */
+export abstract class ChatWebhookNotificationService
+	implements NotificationService
+{
+	public abstract readonly channel: string
+	protected abstract readonly displayName: string
+	protected readonly config: ChatWebhookConfigDTO
+	protected readonly httpClient: AxiosInstance
+	protected readonly maxAttempts: number = 3
+	private readonly templates: NotificationTemplates
+
+	constructor(config: ChatWebhookConfigDTO, templates: NotificationTemplates) {
+		this.config = config
+		this.templates = templates
+		this.httpClient = axios.create({
+			timeout: 10000,
+			headers: { 'Content-Type': 'application/json' },
+		})
+	}
+
+	public async sendNotification(
+		request: NotificationRequest
+	): Promise<NotificationResult> {
+		const { items, isDevNotification } = request
+		if (!this.config.enabled) {
+			return new NotificationResult(
+				false,
+				this.channel,
+				`${this.displayName} notification is disabled`,
+				new Date(),
+				`${this.displayName} notification is disabled`
+			)
+		}
+
+		// Chat channels have no developer audience, keep first-run backlogs out of them
+		if (isDevNotification) {
+			console.log(`🔧 Skipping ${this.displayName} for deployment notification`)
+			return new NotificationResult(
+				true,
+				this.channel,
+				'Skipped deployment notification',
+				new Date()
+			)
+		}
+
+		const deliveredItemIds: string[] = []
+		try {
+			const { subject, message } = this.templates.render(this.channel, request)
+			const payloads = this.createPayloads(subject, message, items)
+			for (const payload of payloads) {
+				await this.post(payload.body)
+				deliveredItemIds.push(...payload.items.map((item) => item.id))
+			}
+
+			console.log(
+				`✅ ${this.displayName} message posted (${items.length} items)`
+			)
+			return new NotificationResult(
+				true,
+				this.channel,
+				`${this.displayName} message posted in ${payloads.length} part(s)`,
+				new Date()
+			)
+		} catch (error) {
+			const errorMessage = this.getErrorMessage(error)
+			console.error(
+				`❌ Failed to post ${this.displayName} message:`,
+				errorMessage
+			)
+			return new NotificationResult(
+				false,
+				this.channel,
+				'',
+				new Date(),
+				errorMessage,
+				undefined,
+				deliveredItemIds.length > 0 ? deliveredItemIds : undefined
+			)
+		}
+	}
+
+	public abstract testConnection(): Promise<boolean>
+
+	/**
+	 * Build the request bodies for one notification, split to fit the
+	 * platform's message limits
+	 */
+	protected abstract createPayloads(
+		title: string,
+		message: string,
+		items: NewsItem[]
+	): ChatPayload[]
+
+	/**
+	 * Post to the webhook, waiting out rate limits and retrying server errors
+	 */
+	protected async post(payload: unknown): Promise<void> {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				await this.httpClient.post(this.config.webhookUrl, payload)
+				return
+			} catch (error) {
+				const delay = this.getRetryDelay(error, attempt)
+				if (attempt >= this.maxAttempts - 1 || delay === undefined) {
+					throw error
+				}
+				console.log(
+					`⏳ ${this.displayName} attempt ${
+						attempt + 1
+					} failed, retrying in ${delay}ms...`
+				)
+				await new Promise((resolve) => setTimeout(resolve, delay))
+			}
+		}
+	}
+
+	/**
+	 * Milliseconds to wait before retrying, undefined when retrying is pointless
+	 */
+	private getRetryDelay(error: unknown, attempt: number): number | undefined {
+		const backoffTime = Math.pow(2, attempt) * 1000
+		if (!axios.isAxiosError(error) || !error.response) {
+			return backoffTime
+		}
+
+		const { status, headers, data } = error.response
+		if (status === 429) {
+			const retryAfter = Number(headers['retry-after'] ?? data?.retry_after)
+			return Number.isFinite(retryAfter) && retryAfter >= 0
+				? Math.ceil(retryAfter * 1000)
+				: backoffTime
+		}
+		return status >= 500 ? backoffTime : undefined
+	}
+
+	protected getErrorMessage(error: unknown): string {
+		if (axios.isAxiosError(error) && error.response) {
+			const { status, data } = error.response
+			const detail = typeof data === 'string' ? data : JSON.stringify(data)
+			return `HTTP ${status}${detail ? `: ${detail}` : ''}`
+		}
+		return error instanceof Error ? error.message : String(error)
+	}
+
+	protected getSourceName(sourceId: string): string {
+		return this.templates.getSourceName(sourceId)
+	}
+}
+
+// Slack rejects messages with more blocks than this
+const SLACK_MAX_BLOCKS = 50
+
+type SlackBlock = Record<string, unknown>
+
+export class SlackNotificationService extends ChatWebhookNotificationService {
+	public readonly channel = 'slack'
+	protected readonly displayName = 'Slack'
+
+	/**
+	 * Slack answers an empty payload with 400 "no_text" when the webhook
+	 * exists, so the check posts nothing to the channel
+	 */
+	public async testConnection(): Promise<boolean> {
+		if (!this.config.enabled) {
+			return false
+		}
+
+		try {
+			await this.httpClient.post(this.config.webhookUrl, {})
+			return true
+		} catch (error) {
+			if (
+				axios.isAxiosError(error) &&
+				error.response?.status === 400 &&
+				String(error.response.data).includes('no_text')
+			) {
+				return true
+			}
+			console.error(
+				'Slack webhook connection test failed:',
+				this.getErrorMessage(error)
+			)
+			return false
+		}
+	}
+
+	/**
+	 * Build Block Kit messages, split so none exceeds the block limit
+	 */
+	protected createPayloads(
+		title: string,
+		message: string,
+		items: NewsItem[]
+	): ChatPayload[] {
+		const header: SlackBlock[] = [
+			{
+				type: 'header',
+				text: { type: 'plain_text', text: title.slice(0, 150), emoji: true },
+			},
+			{
+				type: 'section',
+				text: { type: 'mrkdwn', text: escapeSlackText(message) },
+			},
+		]
+
+		let current: { blocks: SlackBlock[]; items: NewsItem[] } = {
+			blocks: header,
+			items: [],
+		}
+		const messages = [current]
+		for (const [sourceId, sourceItems] of groupItemsBySource(items)) {
+			const itemBlocks = new Map(
+				sourceItems.map((item) => [this.createItemBlock(item), item])
+			)
+			const blocks: SlackBlock[] = [
+				{ type: 'divider' },
+				{
+					type: 'section',
+					text: {
+						type: 'mrkdwn',
+						text: `*${escapeSlackText(this.getSourceName(sourceId))}* (${
+							sourceItems.length
+						})`,
+					},
+				},
+				...itemBlocks.keys(),
+			]
+
+			for (const block of blocks) {
+				if (current.blocks.length >= SLACK_MAX_BLOCKS) {
+					current = { blocks: [], items: [] }
+					messages.push(current)
+				}
+				current.blocks.push(block)
+				const item = itemBlocks.get(block)
+				if (item) {
+					current.items.push(item)
+				}
+			}
+		}
+
+		return messages.map((part) => ({
+			body: { text: title, blocks: part.blocks },
+			items: part.items,
+		}))
+	}
+
+	private createItemBlock(item: NewsItem): SlackBlock {
+		// A "|" would end the URL part of a Slack link early
+		const link = sanitizeUrl(item.link)?.replace(/\|/g, '%7C')
+		const title = escapeSlackText(item.title)
+		const lines = [
+			link ? `*<${escapeSlackText(link)}|${title}>*` : `*${title}*`,
+		]
+		const details = [this.getSourceName(item.sourceId)]
+		if (item.date) {
+			details.unshift(item.date)
+		}
+		const update = describeUpdate(item)
+		if (update) {
+			details.push(update)
+		}
+		lines.push(escapeSlackText(details.join(' · ')))
+
+		return {
+			type: 'section',
+			text: { type: 'mrkdwn', text: lines.join('\n') },
+		}
+	}
+}
+
+// Cards beyond roughly 28 KB are rejected, keep each well below that
+const TEAMS_MAX_ITEMS_PER_CARD = 25
+
+type AdaptiveCardElement = Record<string, unknown>
+
+export class TeamsNotificationService extends ChatWebhookNotificationService {
+	public readonly channel = 'teams'
+	protected readonly displayName = 'Teams'
+
+	/**
+	 * Teams webhooks have no read-only endpoint, so every check posts a
+	 * "connection test" card to the channel
+	 */
+	public async testConnection(): Promise<boolean> {
+		if (!this.config.enabled) {
+			return false
+		}
+
+		try {
+			await this.post(
+				this.createCard([
+					this.createTextBlock('News monitor connection test', {
+						weight: 'Bolder',
+					}),
+				])
+			)
+			return true
+		} catch (error) {
+			console.error(
+				'Teams webhook connection test failed:',
+				this.getErrorMessage(error)
+			)
+			return false
+		}
 	}
 
-	private createTextContent(
+	protected createPayloads(
 		title: string,
 		message: string,
 		items: NewsItem[]
-	): string {
-		let text = `${title}\n\n${message}\n\n`
+	): ChatPayload[] {
+		const header = [
+			this.createTextBlock(title, { weight: 'Bolder', size: 'Medium' }),
+			this.createTextBlock(message),
+		]
 
-		if (items.length > 0) {
-			text += 'New Message Items:\n'
-			for (let i = 0; i < items.length; i++) {
-				const item = items[i]
-				if (item) {
-					text += `${i + 1}. ${item.title}\n`
-					text += `   Link: ${item.link}\n`
-					if (item.date) {
-						text += `   Date: ${item.date}\n`
+		// Split items into cards, each card starts with the title
+		let current: { body: AdaptiveCardElement[]; items: NewsItem[] } = {
+			body: [...header],
+			items: [],
+		}
+		const cards = [current]
+		for (const [sourceId, sourceItems] of groupItemsBySource(items)) {
+			sourceItems.forEach((item, index) => {
+				if (current.items.length === TEAMS_MAX_ITEMS_PER_CARD) {
+					current = { body: [...header], items: [] }
+					cards.push(current)
+				}
+				if (index === 0 || current.items.length === 0) {
+					current.body.push(
+						this.createTextBlock(
+							`${this.getSourceName(sourceId)} (${sourceItems.length})`,
+							{ weight: 'Bolder', separator: true, spacing: 'Medium' }
+						)
+					)
+				}
+				current.body.push(this.createItemContainer(item))
+				current.items.push(item)
+			})
+		}
+
+		return cards.map((card) => ({
+			body: this.createCard(card.body),
+			items: card.items,
+		}))
+	}
+
+	private createItemContainer(item: NewsItem): AdaptiveCardElement {
+		const details = [this.getSourceName(item.sourceId)]
+		if (item.date) {
+			details.unshift(item.date)
+		}
+		const update = describeUpdate(item)
+		if (update) {
+			details.push(update)
+		}
+
+		// The whole container opens the link, titles stay plain text
+		const container: AdaptiveCardElement = {
+			type: 'Container',
+			items: [
+				this.createTextBlock(item.title, { color: 'Accent' }),
+				this.createTextBlock(details.join(' · '), {
+					isSubtle: true,
+					size: 'Small',
+					spacing: 'None',
+				}),
+			],
+		}
+		const link = sanitizeUrl(item.link)
+		if (link) {
+			container['selectAction'] = { type: 'Action.OpenUrl', url: link }
+		}
+		return container
+	}
+
+	/**
+	 * TextBlocks render Markdown, so scraped text is escaped to stay literal
+	 */
+	private createTextBlock(
+		text: string,
+		options: Record<string, unknown> = {}
+	): AdaptiveCardElement {
+		return {
+			type: 'TextBlock',
+			text: escapeMarkdown(text),
+			wrap: true,
+			...options,
+		}
+	}
+
+	private createCard(body: AdaptiveCardElement[]): unknown {
+		return {
+			type: 'message',
+			attachments: [
+				{
+					contentType: 'application/vnd.microsoft.card.adaptive',
+					content: {
+						$schema: 'http://adaptivecards.io/schemas/adaptive-card.json',
+						type: 'AdaptiveCard',
+						version: '1.4',
+						msteams: { width: 'Full' },
+						body,
+					},
+				},
+			],
+		}
+	}
+}
+
+// Discord message limits
+const DISCORD_MAX_EMBEDS = 10
+const DISCORD_MAX_CONTENT_LENGTH = 2000
+const DISCORD_MAX_EMBED_TITLE_LENGTH = 256
+const DISCORD_EMBED_COLOR = 0x007bff
+
+/**
+ * Shorten text to a length limit, marking the cut with an ellipsis
+ */
+function truncateText(text: string, maxLength: number): string {
+	return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text
+}
+
+export class DiscordNotificationService extends ChatWebhookNotificationService {
+	public readonly channel = 'discord'
+	protected readonly displayName = 'Discord'
+
+	/**
+	 * A GET on a Discord webhook URL returns the webhook without posting
+	 */
+	public async testConnection(): Promise<boolean> {
+		if (!this.config.enabled) {
+			return false
+		}
+
+		try {
+			await this.httpClient.get(this.config.webhookUrl)
+			return true
+		} catch (error) {
+			console.error(
+				'Discord webhook connection test failed:',
+				this.getErrorMessage(error)
+			)
+			return false
+		}
+	}
+
+	/**
+	 * One embed per item, split over messages by the embed limit
+	 */
+	protected createPayloads(
+		title: string,
+		message: string,
+		items: NewsItem[]
+	): ChatPayload[] {
+		const content = truncateText(
+			`**${escapeMarkdown(title)}**\n${escapeMarkdown(message)}`,
+			DISCORD_MAX_CONTENT_LENGTH
+		)
+		if (items.length === 0) {
+			return [{ body: { content }, items: [] }]
+		}
+
+		const payloads: ChatPayload[] = []
+		for (let i = 0; i < items.length; i += DISCORD_MAX_EMBEDS) {
+			const payloadItems = items.slice(i, i + DISCORD_MAX_EMBEDS)
+			payloads.push({
+				body: {
+					content,
+					embeds: payloadItems.map((item) => this.createEmbed(item)),
+					// Item titles are plain text, never ping anyone
+					allowed_mentions: { parse: [] },
+				},
+				items: payloadItems,
+			})
+		}
+		return payloads
+	}
+
+	private createEmbed(item: NewsItem): Record<string, unknown> {
+		const footer = [this.getSourceName(item.sourceId)]
+		if (item.date) {
+			footer.push(item.date)
+		}
+		const update = describeUpdate(item)
+		if (update) {
+			footer.push(update)
+		}
+
+		const embed: Record<string, unknown> = {
+			title: truncateText(
+				escapeMarkdown(item.title),
+				DISCORD_MAX_EMBED_TITLE_LENGTH
+			),
+			color: DISCORD_EMBED_COLOR,
+			footer: { text: footer.join(' · ') },
+		}
+		const link = sanitizeUrl(item.link)
+		if (link) {
+			embed['url'] = link
+		}
+		return embed
+	}
+}
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-News-Monitor-Signature'
+
+export class WebhookNotificationService implements NotificationService {
+	public readonly channel = 'webhook'
+	// Each URL is a recipient, so the outbox retries only the URLs that failed
+	public readonly recipients: string[]
+	private readonly config: WebhookConfigDTO
+	private readonly templates: NotificationTemplates
+	private readonly httpClient: AxiosInstance
+
+	constructor(config: WebhookConfigDTO, templates: NotificationTemplates) {
+		this.config = config
+		this.recipients = config.urls
+		this.templates = templates
+		this.httpClient = axios.create({
+			timeout: config.timeoutSeconds * 1000,
+			headers: { ...config.headers, 'Content-Type': 'application/json' },
+			// Keep the signed body byte-for-byte
+			transformRequest: [(data) => data],
+		})
+	}
+
+	public async sendNotification(
+		request: NotificationRequest
+	): Promise<NotificationResult> {
+		if (!this.config.enabled) {
+			return new NotificationResult(
+				false,
+				this.channel,
+				'Webhook notification is disabled',
+				new Date(),
+				'Webhook notification is disabled'
+			)
+		}
+
+		const { subject, message } = this.templates.render(this.channel, request)
+		const payload = this.createPayload(
+			request.items.length > 0 && request.items.every((item) => item.changes)
+				? 'news.items_updated'
+				: 'news.new_items',
+			subject,
+			message,
+			request.items,
+			request.isDevNotification,
+			request.crawlResult
+		)
+		const urls = request.recipients
+			? this.config.urls.filter((url) => request.recipients?.includes(url))
+			: this.config.urls
+		const failedUrls = await this.deliver(payload, urls)
+		const deliveredCount = urls.length - failedUrls.length
+
+		if (failedUrls.length === 0) {
+			return new NotificationResult(
+				true,
+				this.channel,
+				`Webhook delivered to all ${deliveredCount} URLs`,
+				new Date()
+			)
+		}
+		// A partial failure still fails, so the delivery is retried
+		return new NotificationResult(
+			false,
+			this.channel,
+			deliveredCount > 0
+				? `Webhook delivered to ${deliveredCount}/${urls.length} URLs`
+				: '',
+			new Date(),
+			`Failed to deliver to ${failedUrls.length}/${
+				urls.length
+			} URLs: ${failedUrls.join(', ')}`
+		)
+	}
+
+	/**
+	 * Sends a ping event, receivers should answer it with any 2xx status
+	 */
+	public async testConnection(): Promise<boolean> {
+		if (!this.config.enabled) {
+			return false
+		}
+
+		const payload = this.createPayload(
+			'ping',
+			'Connection test',
+			'News monitor webhook connection test',
+			[],
+			false
+		)
+		return (await this.deliver(payload, this.config.urls)).length === 0
+	}
+
+	/**
+	 * Post the payload to the given URLs, returning the ones that failed
+	 */
+	private async deliver(
+		payload: WebhookPayloadDTO,
+		urls: string[]
+	): Promise<string[]> {
+		const body = JSON.stringify(payload)
+		const headers: Record<string, string> = {}
+		if (this.config.secret) {
+			const signature = crypto
+				.createHmac('sha256', this.config.secret)
+				.update(body)
+				.digest('hex')
+			headers[WEBHOOK_SIGNATURE_HEADER] = `sha256=${signature}`
+		}
+
+		const failedUrls: string[] = []
+		for (const url of urls) {
+			try {
+				await this.postWithRetry(url, body, headers)
+				console.log(`✅ Webhook delivered to: ${url}`)
+			} catch (error) {
+				const errorMessage = this.getErrorMessage(error)
+				failedUrls.push(`${url}: ${errorMessage}`)
+				console.error(`❌ Failed to deliver webhook to ${url}:`, errorMessage)
+			}
+		}
+		return failedUrls
+	}
+
+	private async postWithRetry(
+		url: string,
+		body: string,
+		headers: Record<string, string>
+	): Promise<void> {
+		for (let attempt = 0; ; attempt++) {
+			try {
+				await this.httpClient.post(url, body, { headers })
+				return
+			} catch (error) {
+				if (attempt >= this.config.maxRetries - 1 || !this.isRetryable(error)) {
+					throw error
+				}
+				const backoffTime = Math.pow(2, attempt) * 1000
+				console.log(
+					`⏳ Webhook attempt ${
+						attempt + 1
+					} failed, retrying in ${backoffTime}ms...`
+				)
+				await new Promise((resolve) => setTimeout(resolve, backoffTime))
+			}
+		}
+	}
+
+	/**
+	 * Network errors, rate limits and server errors may pass on a later attempt
+	 */
+	private isRetryable(error: unknown): boolean {
+		if (!axios.isAxiosError(error) || !error.response) {
+			return true
+		}
+		const status = error.response.status
+		return status === 429 || status >= 500
+	}
+
+	private createPayload(
+		event: WebhookEvent,
+		title: string,
+		message: string,
+		items: NewsItem[],
+		isDevNotification: boolean,
+		crawlResult?: CrawlResult
+	): WebhookPayloadDTO {
+		const payload: WebhookPayloadDTO = {
+			version: WEBHOOK_PAYLOAD_VERSION,
+			event,
+			sentAt: new Date().toISOString(),
+			title,
+			message,
+			isDevNotification,
+			items: items.map((item) => this.createItem(item)),
+		}
+		if (crawlResult) {
+			payload.run = this.createRun(crawlResult)
+		}
+		return payload
+	}
+
+	private createItem(item: NewsItem): WebhookItemDTO {
+		const webhookItem: WebhookItemDTO = {
+			id: item.id,
+			sourceId: item.sourceId,
+			title: item.title,
+			link: item.link,
+			contentPreview: item.contentPreview,
+			crawledAt: item.crawledAt.toISOString(),
+			firstSeenAt: item.firstSeenAt.toISOString(),
+			lastSeenAt: item.lastSeenAt.toISOString(),
+			categories: item.categories,
+		}
+		if (item.date) webhookItem.date = item.date
+		if (item.content) webhookItem.content = item.content
+		if (item.priority) webhookItem.priority = item.priority
+		if (item.changes) webhookItem.changes = item.changes
+		return webhookItem
+	}
+
+	private createRun(crawlResult: CrawlResult): WebhookRunDTO {
+		const data = crawlResult.toDict()
+		return {
+			success: data.success,
+			timestamp: data.timestamp.toISOString(),
+			executionTime: data.executionTime,
+			isFirstRun: data.isFirstRun,
+			errors: data.errors,
+			sources: data.sourceResults.map((sourceResult) => ({
+				sourceId: sourceResult.sourceId || '',
+				success: sourceResult.success,
+				itemCount: sourceResult.items.length,
+				newItemCount: sourceResult.newItems.length,
+			})),
+		}
+	}
+
+	private getErrorMessage(error: unknown): string {
+		if (axios.isAxiosError(error) && error.response) {
+			return `HTTP ${error.response.status}`
+		}
+		return error instanceof Error ? error.message : String(error)
+	}
+}
+
+// Telegram rejects messages longer than this
+const TELEGRAM_MAX_MESSAGE_LENGTH = 4096
+
+/**
+ * Shorten escaped HTML to at most maxLength characters, without cutting an
+ * entity such as &amp; in half
+ */
+function truncateEscapedHtml(html: string, maxLength: number): string {
+	if (html.length <= maxLength) {
+		return html
+	}
+	let end = Math.max(maxLength - 1, 0)
+	const entityStart = html.lastIndexOf('&', end - 1)
+	if (entityStart !== -1 && html.indexOf(';', entityStart) >= end) {
+		end = entityStart
+	}
+	return `${html.slice(0, end)}…`
+}
+
+export class TelegramNotificationService implements NotificationService {
+	public readonly channel = 'telegram'
+	public readonly recipients: string[]
+	private readonly config: TelegramConfigDTO
+	private readonly templates: NotificationTemplates
+	private readonly httpClient: AxiosInstance
+
+	constructor(config: TelegramConfigDTO, templates: NotificationTemplates) {
+		this.config = config
+		this.recipients = config.chatIds
+		this.templates = templates
+		this.httpClient = axios.create({
+			baseURL: `https://api.telegram.org/bot${config.botToken}`,
+			timeout: 10000,
+		})
+	}
+
+	public async sendNotification(
+		request: NotificationRequest
+	): Promise<NotificationResult> {
+		if (!this.config.enabled) {
+			return new NotificationResult(
+				false,
+				this.channel,
+				'Telegram notification is disabled',
+				new Date(),
+				'Telegram notification is disabled'
+			)
+		}
+
+		// Chats are team members' phones, keep first-run backlogs out of them
+		if (request.isDevNotification) {
+			console.log('🔧 Skipping Telegram for deployment notification')
+			return new NotificationResult(
+				true,
+				this.channel,
+				'Skipped deployment notification',
+				new Date()
+			)
+		}
+
+		const { subject, message } = this.templates.render(this.channel, request)
+		const messages = this.createMessages(subject, message, request.items)
+		const chatIds = request.recipients
+			? this.config.chatIds.filter((chatId) =>
+					request.recipients?.includes(chatId)
+			  )
+			: this.config.chatIds
+		let successfulSends = 0
+		const failedSends: string[] = []
+		const messageIds: string[] = []
+		// Only tracked for one chat, as the outbox sends to each chat separately
+		const deliveredItemIds: string[] = []
+
+		for (const chatId of chatIds) {
+			try {
+				for (const { text, items } of messages) {
+					messageIds.push(String(await this.sendMessage(chatId, text)))
+					if (chatIds.length === 1) {
+						deliveredItemIds.push(...items.map((item) => item.id))
 					}
-					text += '\n'
 				}
+				successfulSends++
+				console.log(`✅ Telegram message sent to chat: ${chatId}`)
+			} catch (error) {
+				const errorMessage = this.getErrorMessage(error)
+				failedSends.push(`${chatId}: ${errorMessage}`)
+				console.error(
+					`❌ Failed to send Telegram message to ${chatId}:`,
+					errorMessage
+				)
 			}
 		}
 
-		return text
+		if (successfulSends === chatIds.length) {
+			return new NotificationResult(
+				true,
+				this.channel,
+				`Telegram message sent to all ${successfulSends} chats`,
+				new Date(),
+				undefined,
+				messageIds.join(', ')
+			)
+		} else if (successfulSends > 0) {
+			return new NotificationResult(
+				true,
+				this.channel,
+				`Telegram message sent to ${successfulSends}/${
+					chatIds.length
+				} chats. Failed: ${failedSends.join(', ')}`,
+				new Date(),
+				undefined,
+				messageIds.join(', ')
+			)
+		} else {
+			return new NotificationResult(
+				false,
+				this.channel,
+				'',
+				new Date(),
+				`Failed to send to all chats: ${failedSends.join(', ')}`,
+				messageIds.join(', ') || undefined,
+				deliveredItemIds.length > 0 ? deliveredItemIds : undefined
+			)
+		}
+	}
+
+	public async testConnection(): Promise<boolean> {
+		if (!this.config.enabled) {
+			return false
+		}
+
+		try {
+			await this.httpClient.get('/getMe')
+			return true
+		} catch (error) {
+			console.error(
+				'Telegram bot connection test failed:',
+				this.getErrorMessage(error)
+			)
+			return false
+		}
+	}
+
+	/**
+	 * Send one message and return its Telegram message id, waiting once for
+	 * the flood limit when Telegram asks to
+	 */
+	private async sendMessage(chatId: string, text: string): Promise<number> {
+		const body = {
+			chat_id: chatId,
+			text,
+			parse_mode: 'HTML',
+			disable_web_page_preview: true,
+		}
+		try {
+			const response = await this.httpClient.post('/sendMessage', body)
+			return response.data.result.message_id
+		} catch (error) {
+			const retryAfter = axios.isAxiosError(error)
+				? error.response?.data?.parameters?.retry_after
+				: undefined
+			if (typeof retryAfter !== 'number') {
+				throw error
+			}
+			console.log(`⏳ Telegram flood limit, retrying in ${retryAfter}s...`)
+			await new Promise((resolve) => setTimeout(resolve, retryAfter * 1000))
+			const response = await this.httpClient.post('/sendMessage', body)
+			return response.data.result.message_id
+		}
+	}
+
+	/**
+	 * Build HTML messages, split between items so none exceeds the length
+	 * limit, each with the items it lists
+	 */
+	private createMessages(
+		title: string,
+		message: string,
+		items: NewsItem[]
+	): Array<{ text: string; items: NewsItem[] }> {
+		// Titles take at most half a message and the template text the rest, so
+		// the header fits in a message even when it is sent on its own
+		const heading = `<b>${truncateEscapedHtml(
+			escapeHtml(title),
+			TELEGRAM_MAX_MESSAGE_LENGTH / 2
+		)}</b>\n`
+		const blocks: Array<{ text: string; item?: NewsItem }> = [
+			{
+				text: `${heading}${truncateEscapedHtml(
+					escapeHtml(message),
+					TELEGRAM_MAX_MESSAGE_LENGTH - heading.length
+				)}`,
+			},
+		]
+		for (const [sourceId, sourceItems] of groupItemsBySource(items)) {
+			const sourceHeading = `\n<b>${escapeHtml(
+				this.getSourceName(sourceId)
+			)}</b> (${sourceItems.length})`
+			// The first item carries the source heading, so a split never leaves
+			// the heading at the end of the previous message
+			const maxItemLength =
+				TELEGRAM_MAX_MESSAGE_LENGTH - sourceHeading.length - 1
+			sourceItems.forEach((item, index) => {
+				const text = this.createItemText(item, index + 1, maxItemLength)
+				blocks.push({
+					text: index === 0 ? `${sourceHeading}\n${text}` : text,
+					item,
+				})
+			})
+		}
+
+		const messages: Array<{ text: string; items: NewsItem[] }> = []
+		let current: { text: string; items: NewsItem[] } = { text: '', items: [] }
+		for (const block of blocks) {
+			if (
+				current.text &&
+				current.text.length + 1 + block.text.length >
+					TELEGRAM_MAX_MESSAGE_LENGTH
+			) {
+				messages.push(current)
+				current = { text: '', items: [] }
+			}
+			current.text = current.text
+				? `${current.text}\n${block.text}`
+				: block.text
+			if (block.item) {
+				current.items.push(block.item)
+			}
+		}
+		if (current.text) {
+			messages.push(current)
+		}
+		return messages
+	}
+
+	private createItemText(
+		item: NewsItem,
+		position: number,
+		maxLength: number
+	): string {
+		const link = sanitizeUrl(item.link)
+		const [opening, closing] = link
+			? [`${position}. <a href="${escapeHtml(link)}">`, '</a>']
+			: [`${position}. `, '']
+		let details = ''
+		if (item.date) {
+			details += `\n   ${escapeHtml(item.date)}`
+		}
+		const update = describeUpdate(item)
+		if (update) {
+			details += `\n   ${escapeHtml(update)}`
+		}
+
+		// Shorten huge titles so every item fits in a single message
+		const title = truncateEscapedHtml(
+			escapeHtml(item.title),
+			maxLength - opening.length - closing.length - details.length
+		)
+		return `${opening}${title}${closing}${details}`
+	}
+
+	private getErrorMessage(error: unknown): string {
+		if (axios.isAxiosError(error) && error.response) {
+			const description = error.response.data?.description
+			return `HTTP ${error.response.status}${
+				description ? `: ${description}` : ''
+			}`
+		}
+		// Axios errors carry the request URL, which holds the bot token
+		return error instanceof Error
+			? error.message.replace(this.config.botToken, '***')
+			: String(error)
+	}
+
+	private getSourceName(sourceId: string): string {
+		return this.templates.getSourceName(sourceId)
 	}
 }
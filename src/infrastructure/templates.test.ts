@@ -0,0 +1,132 @@
+import * as fs from 'fs'
+import * as os from 'os'
+import * as path from 'path'
+import { NotificationTemplates } from './templates'
+import { NewsItem } from '../domain/entities'
+import { NotificationRequest } from '../domain/services'
+
+const SCRIPT_TITLE = '<script>alert("x")</script>'
+const ATTRIBUTE_TITLE = '" onmouseover="alert(1)'
+
+const createRequest = (...items: NewsItem[]): NotificationRequest => ({
+	items,
+	isDevNotification: false,
+})
+
+describe('NotificationTemplates', () => {
+	let templatesDir: string
+
+	beforeAll(() => {
+		// A channel set that puts scraped values into attributes
+		templatesDir = fs.mkdtempSync(path.join(os.tmpdir(), 'templates-'))
+		fs.mkdirSync(path.join(templatesDir, 'custom'))
+		fs.writeFileSync(
+			path.join(templatesDir, 'custom', 'body.html'),
+			'{{#each items}}<a href="{{attr link}}" title="{{attr title}}">{{title}}</a>\n{{/each}}'
+		)
+	})
+
+	afterAll(() => {
+		fs.rmSync(templatesDir, { recursive: true, force: true })
+	})
+
+	describe('default HTML body', () => {
+		it('escapes script tags in titles and previews', () => {
+			const templates = new NotificationTemplates(templatesDir)
+			const item = NewsItem.create(
+				SCRIPT_TITLE,
+				'https://example.com/news/1',
+				undefined,
+				'<img src=x onerror=alert(1)>'
+			)
+
+			const html = templates.render('email', createRequest(item), [
+				'body.html',
+			])['body.html']
+
+			expect(html).not.toContain('<script>')
+			expect(html).not.toContain('<img')
+			expect(html).toContain(
+				'&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt;'
+			)
+		})
+
+		it.each([
+			'javascript:alert(1)',
+			'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+		])('renders no link for %j', (link) => {
+			const templates = new NotificationTemplates(templatesDir)
+			const item = NewsItem.create('Harmless title', link)
+
+			const html = templates.render('email', createRequest(item), [
+				'body.html',
+			])['body.html']
+
+			expect(html).toContain('Harmless title')
+			expect(html).not.toContain('href=')
+			expect(html).not.toMatch(/javascript:|data:text/i)
+		})
+
+		it('keeps titles inside the link attribute', () => {
+			const templates = new NotificationTemplates(templatesDir)
+			const item = NewsItem.create(
+				ATTRIBUTE_TITLE,
+				'https://example.com/news?a=1&b="x"'
+			)
+
+			const html = templates.render('email', createRequest(item), [
+				'body.html',
+			])['body.html']
+
+			expect(html).not.toContain('" onmouseover')
+			expect(html).toContain(
+				'href="https&#x3a;&#x2f;&#x2f;example&#x2e;com&#x2f;news&#x3f;a&#x3d;1&#x26;b&#x3d;&#x25;22x&#x25;22"'
+			)
+		})
+	})
+
+	describe('attr helper', () => {
+		it('keeps titles from breaking out of an attribute', () => {
+			const templates = new NotificationTemplates(templatesDir)
+			const item = NewsItem.create(
+				ATTRIBUTE_TITLE,
+				'https://example.com/news/2'
+			)
+
+			const html = templates.render('custom', createRequest(item), [
+				'body.html',
+			])['body.html']
+
+			expect(html).not.toContain('" onmouseover')
+			expect(html).toContain(
+				'title="&#x22;&#x20;onmouseover&#x3d;&#x22;alert&#x28;1&#x29;"'
+			)
+		})
+
+		it('leaves unsafe links empty', () => {
+			const templates = new NotificationTemplates(templatesDir)
+			const item = NewsItem.create(SCRIPT_TITLE, 'javascript:alert(1)')
+
+			const html = templates.render('custom', createRequest(item), [
+				'body.html',
+			])['body.html']
+
+			expect(html).toContain('href=""')
+			expect(html).not.toContain('<script>')
+		})
+	})
+
+	describe('text templates', () => {
+		it('insert titles as-is and drop unsafe links', () => {
+			const templates = new NotificationTemplates(templatesDir)
+			const item = NewsItem.create(SCRIPT_TITLE, 'javascript:alert(1)')
+
+			const text = templates.render('email', createRequest(item), ['body.txt'])[
+				'body.txt'
+			]
+
+			expect(text).toContain(SCRIPT_TITLE)
+			expect(text).not.toContain('javascript:')
+		})
+	})
+})
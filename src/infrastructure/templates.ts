@@ -0,0 +1,272 @@
+/**
+ * Notification templates loaded from files
+ */
+import * as fs from 'fs'
+import * as path from 'path'
+import Handlebars from 'handlebars'
+import { NewsItem } from '../domain/entities'
+import { NotificationRequest } from '../domain/services'
+import { SourceConfigDTO } from '../application/dto'
+import { escapeHtmlAttribute, sanitizeUrl } from './encoding'
+
+export type TemplateName = 'subject' | 'message' | 'body.html' | 'body.txt'
+
+const TEMPLATE_FILES: Record<TemplateName, string> = {
+	subject: 'subject.txt',
+	message: 'message.txt',
+	'body.html': 'body.html',
+	'body.txt': 'body.txt',
+}
+
+// Default set shipped with the application, used for anything not overridden
+const BUNDLED_TEMPLATES_DIR = path.resolve(__dirname, '../../templates')
+const DEFAULT_TEMPLATE_SET = 'default'
+
+export interface TemplateItemView {
+	position: number
+	id: string
+	title: string
+	// Empty unless the scraped link is an http(s) URL
+	link: string
+	date?: string
+	preview: string
+	content: string
+	sourceId: string
+	sourceName: string
+	firstSeenAt: string
+	categories: string[]
+	// "normal" for unclassified items
+	priority: string
+	isHighPriority: boolean
+	// Set when the item is an edit of one already seen
+	changes?: TemplateChangesView
+}
+
+export interface TemplateChangesView {
+	revision: number
+	title?: { before: string; after: string }
+	date?: { before: string; after: string }
+	body: Array<{ text: string; isAdded: boolean }>
+}
+
+export interface TemplateSourceView {
+	id: string
+	name: string
+	count: number
+	items: TemplateItemView[]
+}
+
+export interface TemplateRunView {
+	timestamp: string
+	executionSeconds: string
+	success: boolean
+	sourceCount: number
+	errorCount: number
+	errors: string[]
+}
+
+/**
+ * Variables available to every template
+ */
+export interface TemplateView {
+	channel: string
+	count: number
+	isFirstRun: boolean
+	isDevNotification: boolean
+	isDigest: boolean
+	// Every item is an edit of one already seen
+	isUpdate: boolean
+	updatedCount: number
+	items: TemplateItemView[]
+	sources: TemplateSourceView[]
+	// Every category among the items, in order of first appearance
+	categories: string[]
+	highPriorityCount: number
+	// Set when every item comes from the same source
+	source?: { id: string; name: string }
+	run?: TemplateRunView
+	subject: string
+	message: string
+}
+
+/**
+ * Renders notification text from Handlebars templates. Files are looked up
+ * in order in `<channel>/sources/<sourceId>/`, `<channel>/`,
+ * `default/sources/<sourceId>/` and `default/`, first in the configured
+ * directory and then in the bundled one.
+ */
+export class NotificationTemplates {
+	private readonly templatesDirs: string[]
+	private readonly sourceNames: Map<string, string>
+	private readonly handlebars = Handlebars.create()
+	private readonly cache = new Map<string, HandlebarsTemplateDelegate>()
+
+	constructor(templatesDir: string, sources: SourceConfigDTO[] = []) {
+		this.templatesDirs = Array.from(
+			new Set([path.resolve(templatesDir), BUNDLED_TEMPLATES_DIR])
+		)
+		this.sourceNames = new Map(
+			sources.map((source) => [source.id, source.name])
+		)
+		// {{attr value}} for attribute values, stricter than the default escaping
+		this.handlebars.registerHelper(
+			'attr',
+			(value: unknown) =>
+				new this.handlebars.SafeString(escapeHtmlAttribute(String(value ?? '')))
+		)
+	}
+
+	/**
+	 * Render the subject, the intro message and the given bodies for a channel
+	 */
+	public render<T extends TemplateName>(
+		channel: string,
+		request: NotificationRequest,
+		names: T[] = []
+	): { subject: string; message: string } & Record<T, string> {
+		const view = this.createView(channel, request)
+		const sourceId = view.source?.id
+		view.subject = this.getTemplate(channel, 'subject', sourceId)(view).trim()
+		view.message = this.getTemplate(channel, 'message', sourceId)(view).trim()
+
+		const rendered: Record<string, string> = {
+			subject: view.subject,
+			message: view.message,
+		}
+		for (const name of names) {
+			rendered[name] = this.getTemplate(channel, name, sourceId)(view)
+		}
+		return rendered as { subject: string; message: string } & Record<T, string>
+	}
+
+	public getSourceName(sourceId: string): string {
+		return this.sourceNames.get(sourceId) || sourceId
+	}
+
+	private getTemplate(
+		channel: string,
+		name: TemplateName,
+		sourceId?: string
+	): HandlebarsTemplateDelegate {
+		const file = TEMPLATE_FILES[name]
+		const candidates: string[] = []
+		for (const set of [channel, DEFAULT_TEMPLATE_SET]) {
+			if (sourceId) {
+				candidates.push(path.join(set, 'sources', sourceId, file))
+			}
+			candidates.push(path.join(set, file))
+		}
+
+		for (const candidate of candidates) {
+			for (const templatesDir of this.templatesDirs) {
+				const templatePath = path.join(templatesDir, candidate)
+				const cached = this.cache.get(templatePath)
+				if (cached) {
+					return cached
+				}
+				if (fs.existsSync(templatePath)) {
+					const template = this.handlebars.compile(
+						fs.readFileSync(templatePath, 'utf-8'),
+						// Only HTML templates escape their variables
+						{ noEscape: !file.endsWith('.html') }
+					)
+					this.cache.set(templatePath, template)
+					return template
+				}
+			}
+		}
+
+		throw new Error(`Template '${file}' not found for channel '${channel}'`)
+	}
+
+	private createView(
+		channel: string,
+		request: NotificationRequest
+	): TemplateView {
+		const { items, isDevNotification, isDigest, crawlResult } = request
+
+		const sources: TemplateSourceView[] = []
+		for (const item of items) {
+			let source = sources.find((group) => group.id === item.sourceId)
+			if (!source) {
+				source = {
+					id: item.sourceId,
+					name: this.getSourceName(item.sourceId),
+					count: 0,
+					items: [],
+				}
+				sources.push(source)
+			}
+			source.count++
+			source.items.push(this.createItemView(item, source.count))
+		}
+
+		const view: TemplateView = {
+			channel,
+			count: items.length,
+			isFirstRun: crawlResult?.isFirstRun ?? isDevNotification,
+			isDevNotification,
+			isDigest: isDigest ?? false,
+			isUpdate: items.length > 0 && items.every((item) => item.changes),
+			updatedCount: items.filter((item) => item.changes).length,
+			items: items.map((item, index) => this.createItemView(item, index + 1)),
+			sources,
+			categories: Array.from(new Set(items.flatMap((item) => item.categories))),
+			highPriorityCount: items.filter((item) => item.priority === 'high')
+				.length,
+			subject: '',
+			message: '',
+		}
+		if (sources.length === 1 && sources[0]) {
+			view.source = { id: sources[0].id, name: sources[0].name }
+		}
+		if (crawlResult) {
+			view.run = {
+				timestamp: crawlResult.timestamp.toISOString(),
+				executionSeconds: (crawlResult.executionTime / 1000).toFixed(2),
+				success: crawlResult.success,
+				sourceCount: crawlResult.sourceResults.length,
+				errorCount: crawlResult.errors.length,
+				errors: crawlResult.errors,
+			}
+		}
+		return view
+	}
+
+	private createItemView(item: NewsItem, position: number): TemplateItemView {
+		const itemView: TemplateItemView = {
+			position,
+			id: item.id,
+			title: item.title,
+			link: sanitizeUrl(item.link) || '',
+			preview: item.contentPreview,
+			content: item.content,
+			sourceId: item.sourceId,
+			sourceName: this.getSourceName(item.sourceId),
+			firstSeenAt: item.firstSeenAt.toISOString(),
+			categories: item.categories,
+			priority: item.priority ?? 'normal',
+			isHighPriority: item.priority === 'high',
+		}
+		if (item.date) {
+			itemView.date = item.date
+		}
+		if (item.changes) {
+			const { revision, title, date, body } = item.changes
+			itemView.changes = {
+				revision,
+				body: (body || []).map((line) => ({
+					text: line.text,
+					isAdded: line.type === 'added',
+				})),
+			}
+			if (title) {
+				itemView.changes.title = title
+			}
+			if (date) {
+				itemView.changes.date = { before: date.before || '', after: date.after }
+			}
+		}
+		return itemView
+	}
+}
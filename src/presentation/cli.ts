@@ -2,6 +2,18 @@
  * Command Line Interface for the news monitoring application
  */
 import { DIContainer } from '../infrastructure/dependencyInjection'
+import { DeliveryLogFilterDTO } from '../application/dto'
+
+// Options of the history command and the filters they set
+const HISTORY_OPTIONS: Record<string, keyof DeliveryLogFilterDTO> = {
+	'--item': 'item',
+	'--channel': 'channel',
+	'--recipient': 'recipient',
+	'--status': 'status',
+	'--since': 'since',
+	'--until': 'until',
+	'--limit': 'limit',
+}
 
 export class NewsMonitorCLI {
 	private readonly container: DIContainer
@@ -24,22 +36,67 @@ export class NewsMonitorCLI {
 				console.log('✅ Crawling successful!')
 				console.log(`📊 Total crawled ${result.items.length} messages`)
 				console.log(`🆕 Found ${result.newItems.length} new messages`)
+				if (result.updatedItems.length > 0) {
+					console.log(`✏️ Found ${result.updatedItems.length} updated messages`)
+				}
 				console.log(
 					`⏱️ Execution time: ${(result.executionTime / 1000).toFixed(
 						2
 					)} seconds`
 				)
 
+				console.log('\n🗂️  Sources:')
+				for (const sourceResult of result.sourceResults) {
+					const sourceId = sourceResult.sourceId || ''
+					console.log(
+						`  ${sourceResult.success ? '✅' : '❌'} ${this.getSourceName(
+							sourceId
+						)}: ${sourceResult.items.length} crawled, ${
+							sourceResult.newItems.length
+						} new`
+					)
+				}
+
+				if (result.filterResults.length > 0) {
+					console.log('\n🧹 Filters:')
+					for (const filterResult of result.filterResults) {
+						console.log(
+							`  - ${filterResult.rule}: ${filterResult.suppressed} suppressed`
+						)
+					}
+				}
+
+				if (result.notificationResults.length > 0) {
+					console.log('\n📣 Notifications:')
+					for (const notificationResult of result.notificationResults) {
+						console.log(
+							`  ${notificationResult.success ? '✅' : '❌'} ${
+								notificationResult.channel
+							}: ${notificationResult.error || notificationResult.message}`
+						)
+					}
+				}
+
 				if (result.newItems.length > 0) {
 					console.log('\n📰 New messages list:')
 					for (let i = 0; i < result.newItems.length; i++) {
 						const item = result.newItems[i]
 						if (item) {
 							console.log(`  ${i + 1}. ${item.title}`)
+							if (item.suppressedBy) {
+								console.log(`     Suppressed by: ${item.suppressedBy}`)
+							}
+							console.log(`     Source: ${this.getSourceName(item.sourceId)}`)
 							console.log(`     Link: ${item.link}`)
 							if (item.date) {
 								console.log(`     Date: ${item.date}`)
 							}
+							if (item.priority) {
+								console.log(`     Priority: ${item.priority}`)
+							}
+							if (item.categories.length > 0) {
+								console.log(`     Categories: ${item.categories.join(', ')}`)
+							}
 							console.log()
 						}
 					}
@@ -47,6 +104,32 @@ export class NewsMonitorCLI {
 					console.log('ℹ️  No new messages found')
 				}
 
+				if (result.updatedItems.length > 0) {
+					console.log('\n✏️ Updated messages list:')
+					result.updatedItems.forEach((item, index) => {
+						const { revision, title, date, body } = item.changes || {}
+						console.log(`  ${index + 1}. ${item.title}`)
+						if (item.suppressedBy) {
+							console.log(`     Suppressed by: ${item.suppressedBy}`)
+						}
+						console.log(`     Source: ${this.getSourceName(item.sourceId)}`)
+						console.log(`     Link: ${item.link}`)
+						console.log(`     Revision: ${revision}`)
+						if (title) {
+							console.log(`     Title was: ${title.before}`)
+						}
+						if (date) {
+							console.log(
+								`     Date: ${date.before || '(none)'} → ${date.after}`
+							)
+						}
+						if (body) {
+							console.log(`     Text: ${body.length} lines changed`)
+						}
+						console.log()
+					})
+				}
+
 				if (result.errors.length > 0) {
 					console.log('⚠️  Warnings:')
 					for (const error of result.errors) {
@@ -91,6 +174,16 @@ export class NewsMonitorCLI {
 			if (!crawlerSuccess && results.crawlerError) {
 				console.log(`   Error: ${results.crawlerError}`)
 			}
+			for (const source of results.sources) {
+				console.log(
+					`   ${source.success ? '✅' : '❌'} ${this.getSourceName(
+						source.sourceId
+					)}`
+				)
+				if (source.error) {
+					console.log(`      Error: ${source.error}`)
+				}
+			}
 
 			console.log(
 				`📧 Notification connection: ${
@@ -100,6 +193,12 @@ export class NewsMonitorCLI {
 			if (!notificationSuccess && results.notificationError) {
 				console.log(`   Error: ${results.notificationError}`)
 			}
+			for (const channel of results.channels) {
+				console.log(`   ${channel.success ? '✅' : '❌'} ${channel.channel}`)
+				if (channel.error) {
+					console.log(`      Error: ${channel.error}`)
+				}
+			}
 
 			if (crawlerSuccess && notificationSuccess) {
 				console.log('\n✅ All connection tests passed!')
@@ -134,6 +233,10 @@ export class NewsMonitorCLI {
 			if (stats.totalItems > 0) {
 				console.log(`📅 Oldest message: ${stats.oldestItem?.toISOString()}`)
 				console.log(`📅 Newest message: ${stats.newestItem?.toISOString()}`)
+				console.log('🗂️  Messages by source:')
+				for (const [sourceId, count] of Object.entries(stats.itemsBySource)) {
+					console.log(`  - ${this.getSourceName(sourceId)}: ${count}`)
+				}
 			} else {
 				console.log('ℹ️  Cache is empty')
 			}
@@ -199,12 +302,277 @@ export class NewsMonitorCLI {
 			return 1
 		}
 	}
+
+	public async importCache(): Promise<number> {
+		try {
+			console.log('=== Import JSON Cache ===')
+
+			// Get use case
+			const useCase = this.container.getImportCacheUseCase()
+
+			// Execute
+			const importedCount = await useCase.execute()
+
+			if (importedCount > 0) {
+				console.log(`✅ Imported ${importedCount} messages`)
+			} else {
+				console.log('ℹ️  No cached messages to import')
+			}
+
+			return 0
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			console.error(`❌ Cache import failed: ${errorMessage}`)
+			return 1
+		}
+	}
+
+	public async flushDigests(): Promise<number> {
+		try {
+			console.log('=== Flush Digests ===')
+
+			// Get use case
+			const useCase = this.container.getFlushDigestsUseCase()
+
+			// Execute
+			const results = await useCase.execute()
+
+			if (results.length === 0) {
+				console.log('ℹ️  No queued messages to send')
+				return 0
+			}
+
+			for (const result of results) {
+				console.log(
+					`  ${result.success ? '✅' : '❌'} ${result.channel}: ${
+						result.error || result.message
+					}`
+				)
+			}
+
+			return results.every((result) => result.success) ? 0 : 1
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			console.error(`❌ Digest flush failed: ${errorMessage}`)
+			return 1
+		}
+	}
+
+	public async releaseHeldNotifications(): Promise<number> {
+		try {
+			console.log('=== Release Held Notifications ===')
+
+			// Get use case
+			const useCase = this.container.getReleaseHeldNotificationsUseCase()
+
+			// Execute
+			const results = await useCase.execute()
+
+			if (results.length === 0) {
+				console.log('ℹ️  No held notifications are due')
+				return 0
+			}
+
+			for (const result of results) {
+				console.log(
+					`  ${result.success ? '✅' : '❌'} ${result.channel}: ${
+						result.error || result.message
+					}`
+				)
+			}
+
+			return results.every((result) => result.success) ? 0 : 1
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			console.error(`❌ Releasing held notifications failed: ${errorMessage}`)
+			return 1
+		}
+	}
+
+	public async showOutbox(): Promise<number> {
+		try {
+			console.log('=== Notification Outbox ===')
+
+			// Get use case
+			const useCase = this.container.getOutboxUseCase()
+
+			// Execute
+			const { pending, dead } = await useCase.execute()
+
+			console.log(`📤 Pending deliveries: ${pending.length}`)
+			for (const entry of pending) {
+				console.log(
+					`  - ${entry.channel}${
+						entry.recipient ? ` → ${entry.recipient}` : ''
+					}: ${entry.items.length} items, attempt ${
+						entry.attempts
+					}, next at ${entry.nextAttemptAt.toISOString()}`
+				)
+				if (entry.lastError) {
+					console.log(`     Error: ${entry.lastError}`)
+				}
+			}
+
+			console.log(`💀 Dead letters: ${dead.length}`)
+			for (const entry of dead) {
+				console.log(
+					`  - [${entry.id}] ${entry.channel}${
+						entry.recipient ? ` → ${entry.recipient}` : ''
+					}: ${entry.items.length} items, ${
+						entry.attempts
+					} attempts since ${entry.createdAt.toISOString()}`
+				)
+				if (entry.lastError) {
+					console.log(`     Error: ${entry.lastError}`)
+				}
+			}
+
+			return 0
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			console.error(`❌ Failed to read outbox: ${errorMessage}`)
+			return 1
+		}
+	}
+
+	public async retryOutbox(): Promise<number> {
+		try {
+			console.log('=== Retry Outbox ===')
+
+			// Get use case
+			const useCase = this.container.getRetryOutboxUseCase()
+
+			// Execute
+			const results = await useCase.execute()
+
+			if (results.length === 0) {
+				console.log('ℹ️  No deliveries are due for retry')
+				return 0
+			}
+
+			for (const result of results) {
+				console.log(
+					`  ${result.success ? '✅' : '❌'} ${result.channel}: ${
+						result.error || result.message
+					}`
+				)
+			}
+
+			return results.every((result) => result.success) ? 0 : 1
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			console.error(`❌ Outbox retry failed: ${errorMessage}`)
+			return 1
+		}
+	}
+
+	public async showDeliveryHistory(
+		filter: DeliveryLogFilterDTO
+	): Promise<number> {
+		try {
+			console.log('=== Delivery History ===')
+
+			// Get use case
+			const useCase = this.container.getQueryDeliveryLogUseCase()
+
+			// Execute
+			const entries = await useCase.execute(filter)
+
+			if (entries.length === 0) {
+				console.log('ℹ️  No deliveries found')
+				return 0
+			}
+
+			const statusIcons = { delivered: '✅', failed: '❌', dead: '💀' }
+			for (const entry of entries) {
+				console.log(
+					`${statusIcons[entry.status]} ${entry.timestamp.toISOString()} ${
+						entry.channel
+					}${entry.recipient ? ` → ${entry.recipient}` : ''}: ${entry.status}`
+				)
+				console.log(`     Items: ${entry.itemIds.join(', ')}`)
+				if (entry.providerMessageId) {
+					console.log(`     Message id: ${entry.providerMessageId}`)
+				}
+				if (entry.error) {
+					console.log(`     Error: ${entry.error}`)
+				}
+			}
+
+			return 0
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			console.error(`❌ Failed to query delivery history: ${errorMessage}`)
+			return 1
+		}
+	}
+
+	public async showRevisions(itemId: string | undefined): Promise<number> {
+		try {
+			console.log('=== Item Revisions ===')
+			if (!itemId) {
+				throw new Error('--item is required')
+			}
+
+			// Get use case
+			const useCase = this.container.getItemRevisionsUseCase()
+
+			// Execute
+			const { item, revisions } = await useCase.execute(itemId)
+
+			if (!item && revisions.length === 0) {
+				console.log(`ℹ️  No item found with id ${itemId}`)
+				return 0
+			}
+
+			for (const revision of revisions) {
+				console.log(
+					`📄 Revision ${
+						revision.revision
+					}, replaced ${revision.replacedAt.toISOString()}`
+				)
+				console.log(`     Title: ${revision.title}`)
+				if (revision.date) {
+					console.log(`     Date: ${revision.date}`)
+				}
+			}
+			if (item) {
+				console.log(`📰 Current (revision ${revisions.length + 1})`)
+				console.log(`     Title: ${item.title}`)
+				if (item.date) {
+					console.log(`     Date: ${item.date}`)
+				}
+				console.log(`     Link: ${item.link}`)
+			}
+
+			return 0
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			console.error(`❌ Failed to show revisions: ${errorMessage}`)
+			return 1
+		}
+	}
+
+	private getSourceName(sourceId: string): string {
+		const source = this.container
+			.getAppConfig()
+			.sources.find((configuredSource) => configuredSource.id === sourceId)
+		return source ? source.name : sourceId
+	}
 }
 
 export function parseCliArgs(): {
 	command: string
 	config: string
 	days: number
+	filter: DeliveryLogFilterDTO
 } {
 	const args = process.argv.slice(2)
 
@@ -215,7 +583,20 @@ export function parseCliArgs(): {
 	}
 
 	const command = args[0]
-	const validCommands = ['crawl', 'test', 'stats', 'cleanup', 'reset-state']
+	const validCommands = [
+		'crawl',
+		'test',
+		'stats',
+		'cleanup',
+		'reset-state',
+		'import-cache',
+		'flush-digests',
+		'release-held',
+		'outbox',
+		'retry-outbox',
+		'history',
+		'revisions',
+	]
 
 	if (!command || !validCommands.includes(command)) {
 		throw new Error(
@@ -227,6 +608,7 @@ export function parseCliArgs(): {
 
 	let config = 'config/config.json'
 	let days = 30
+	const filter: DeliveryLogFilterDTO = {}
 
 	// Parse additional arguments
 	for (let i = 1; i < args.length; i++) {
@@ -246,15 +628,21 @@ export function parseCliArgs(): {
 				}
 			}
 			i++ // Skip next argument
+		} else if (arg && HISTORY_OPTIONS[arg] && i + 1 < args.length) {
+			const nextArg = args[i + 1]
+			if (nextArg) {
+				filter[HISTORY_OPTIONS[arg]] = nextArg
+			}
+			i++ // Skip next argument
 		}
 	}
 
-	return { command: command!, config, days }
+	return { command: command!, config, days, filter }
 }
 
 export async function main(): Promise<number> {
 	try {
-		const { command, config, days } = parseCliArgs()
+		const { command, config, days, filter } = parseCliArgs()
 		// TODO: config should handle here?
 		const cli = new NewsMonitorCLI(config)
 
@@ -269,6 +657,20 @@ export async function main(): Promise<number> {
 				return await cli.cleanupCache(days)
 			case 'reset-state':
 				return await cli.resetFirstRunState()
+			case 'import-cache':
+				return await cli.importCache()
+			case 'flush-digests':
+				return await cli.flushDigests()
+			case 'release-held':
+				return await cli.releaseHeldNotifications()
+			case 'outbox':
+				return await cli.showOutbox()
+			case 'retry-outbox':
+				return await cli.retryOutbox()
+			case 'history':
+				return await cli.showDeliveryHistory(filter)
+			case 'revisions':
+				return await cli.showRevisions(filter.item)
 			default:
 				throw new Error(`Unknown command: ${command}`)
 		}
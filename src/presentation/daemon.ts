@@ -1,15 +1,28 @@
 /**
  * Clean Architecture Daemon Server for News Monitoring
  */
+import { createHash } from 'crypto'
 import * as express from 'express'
 import * as fs from 'fs'
 import * as path from 'path'
+import * as cron from 'node-cron'
 import { DIContainer } from '../infrastructure/dependencyInjection'
-import { HealthCheckDTO } from '../application/dto'
+import {
+	DeliveryLogFilterDTO,
+	DigestConfigDTO,
+	HealthCheckDTO,
+	ScheduleRuleDTO,
+	SourceConfigDTO,
+} from '../application/dto'
+
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1
 
 export class NewsMonitorDaemon {
 	private readonly configPath: string
-	private schedulerInterval?: NodeJS.Timeout
+	private schedulerTimer?: NodeJS.Timeout
+	private nextRunAt?: Date
+	private cronTasks: cron.ScheduledTask[] = []
+	private runQueue: Promise<unknown> = Promise.resolve()
 	private healthServer?: any
 	private startTime?: number
 	private container: DIContainer
@@ -108,10 +121,54 @@ export class NewsMonitorDaemon {
 						? Math.floor((Date.now() - this.startTime) / 1000)
 						: 0,
 				}
+				if (this.nextRunAt) {
+					healthData.nextRunAt = this.nextRunAt
+				}
 
 				res.json(healthData)
 			})
 
+			// Read-only view of the delivery log, filtered by query parameters.
+			// It lists recipients, so it is only served with a token to check.
+			const deliveriesToken = this.appConfig.server.deliveriesToken
+			app.get('/deliveries', async (req: any, res: any) => {
+				if (!deliveriesToken) {
+					res.status(404).json({ error: 'Not found' })
+					return
+				}
+				if (!this.hasBearerToken(req.get('Authorization'), deliveriesToken)) {
+					res.status(401).json({ error: 'Unauthorized' })
+					return
+				}
+
+				const filter: DeliveryLogFilterDTO = {}
+				for (const key of [
+					'item',
+					'channel',
+					'recipient',
+					'status',
+					'since',
+					'until',
+					'limit',
+				] as const) {
+					const value = req.query[key]
+					if (typeof value === 'string' && value) {
+						filter[key] = value
+					}
+				}
+
+				try {
+					const entries = await this.container
+						.getQueryDeliveryLogUseCase()
+						.execute(filter)
+					res.json({ count: entries.length, deliveries: entries })
+				} catch (error) {
+					const errorMessage =
+						error instanceof Error ? error.message : String(error)
+					res.status(400).json({ error: errorMessage })
+				}
+			})
+
 			this.healthServer = app.listen(port, host, () => {
 				this.printInfo(`Health check server started (port: ${port})`)
 			})
@@ -120,6 +177,20 @@ export class NewsMonitorDaemon {
 		}
 	}
 
+	/**
+	 * Whether an Authorization header carries the token. Digests are compared
+	 * instead of the tokens, so timing reveals nothing about the token.
+	 */
+	private hasBearerToken(header: string | undefined, token: string): boolean {
+		const match = /^Bearer (.+)$/.exec(header || '')
+		if (!match) {
+			return false
+		}
+		const digest = (value: string): string =>
+			createHash('sha256').update(value, 'utf8').digest('hex')
+		return digest(match[1] as string) === digest(token)
+	}
+
 	private stopHealthServer(): void {
 		if (this.healthServer) {
 			this.healthServer.close()
@@ -127,21 +198,64 @@ export class NewsMonitorDaemon {
 		}
 	}
 
-	private async runCrawlerCheck(): Promise<boolean> {
+	/**
+	 * Runs one job at a time, so crawls and digest flushes never overlap
+	 */
+	private enqueueRun<T>(job: () => Promise<T>): Promise<T> {
+		const run = this.runQueue.then(job)
+		this.runQueue = run
+		return run
+	}
+
+	private runCrawlerCheck(sourceIds?: string[]): Promise<boolean> {
+		return this.enqueueRun(() => this.executeCrawlerCheck(sourceIds))
+	}
+
+	private async flushDigest(channel: string): Promise<void> {
 		try {
-			this.printInfo('Starting crawler check...')
+			const useCase = this.container.getFlushDigestsUseCase()
+			const results = await useCase.execute([channel])
+			if (results.length === 0) {
+				this.printInfo(`📬 No queued messages for the ${channel} digest`)
+			}
+			for (const result of results) {
+				this.printInfo(
+					`📬 ${result.success ? '✅' : '❌'} ${result.channel} digest: ${
+						result.error || result.message
+					}`
+				)
+			}
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			this.printInfo(`❌ Digest flush failed: ${errorMessage}`)
+		}
+	}
+
+	private async executeCrawlerCheck(sourceIds?: string[]): Promise<boolean> {
+		try {
+			this.printInfo(
+				sourceIds
+					? `Starting crawler check (${sourceIds.join(', ')})...`
+					: 'Starting crawler check...'
+			)
 
 			// Get use case
 			const useCase = this.container.getMonitorNewsUseCase()
 
 			// Execute monitoring
-			const result = await useCase.execute()
+			const result = await useCase.execute(sourceIds)
 
 			if (!result.success) {
 				this.printInfo(`❌ Crawling failed: ${result.errors.join(', ')}`)
 				return false
 			}
 
+			// Some sources may have failed while others succeeded
+			for (const error of result.errors) {
+				this.printInfo(`⚠️  ${error}`)
+			}
+
 			// Check for new items
 			if (result.newItems.length > 0) {
 				this.printInfo(`🆕 Found ${result.newItems.length} new messages!`)
@@ -150,13 +264,37 @@ export class NewsMonitorDaemon {
 				for (let i = 0; i < result.newItems.length; i++) {
 					const item = result.newItems[i]
 					if (item) {
-						this.printInfo(`  ${i + 1}. ${item.title}`)
+						this.printInfo(
+							`  ${i + 1}. [${item.sourceId}]${
+								item.priority === 'high' ? ' [high]' : ''
+							} ${item.title}${
+								item.suppressedBy ? ` (suppressed by ${item.suppressedBy})` : ''
+							}`
+						)
 					}
 				}
+				for (const filterResult of result.filterResults) {
+					this.printInfo(
+						`🧹 ${filterResult.rule}: ${filterResult.suppressed} suppressed`
+					)
+				}
 			} else {
 				this.printInfo('ℹ️  No new messages found')
 			}
 
+			if (result.updatedItems.length > 0) {
+				this.printInfo(
+					`✏️ Found ${result.updatedItems.length} updated messages`
+				)
+				result.updatedItems.forEach((item, index) => {
+					this.printInfo(
+						`  ${index + 1}. [${item.sourceId}] ${item.title} (revision ${
+							item.changes?.revision
+						})`
+					)
+				})
+			}
+
 			return true
 		} catch (error) {
 			const errorMessage =
@@ -166,6 +304,36 @@ export class NewsMonitorDaemon {
 		}
 	}
 
+	private async runDeliveryChecks(): Promise<void> {
+		try {
+			const retryResults = await this.container
+				.getRetryOutboxUseCase()
+				.execute()
+			for (const result of retryResults) {
+				this.printInfo(
+					`📤 ${result.success ? '✅' : '❌'} ${result.channel} retry: ${
+						result.error || result.message
+					}`
+				)
+			}
+
+			const releaseResults = await this.container
+				.getReleaseHeldNotificationsUseCase()
+				.execute()
+			for (const result of releaseResults) {
+				this.printInfo(
+					`🔔 ${result.success ? '✅' : '❌'} ${
+						result.channel
+					} held notification: ${result.error || result.message}`
+				)
+			}
+		} catch (error) {
+			const errorMessage =
+				error instanceof Error ? error.message : String(error)
+			this.printInfo(`❌ Delivery checks failed: ${errorMessage}`)
+		}
+	}
+
 	private startScheduler(): void {
 		if (!this.appConfig.schedule.enabled) {
 			this.printInfo('❌ Scheduler not enabled')
@@ -174,123 +342,179 @@ export class NewsMonitorDaemon {
 
 		this.printInfo('Scheduler started')
 
-		// Load schedule rules from config
-		const scheduleRules = this.loadScheduleRules()
-		if (scheduleRules.length === 0) {
-			this.printInfo('❌ No valid schedule rules found')
+		this.startCronSchedules()
+		this.startDigestSchedules()
+		this.startDeliveryChecks()
+
+		const ruleSourceIds = this.getRuleSourceIds()
+		if (ruleSourceIds.length === 0) {
+			this.printInfo('All sources have their own cron schedule')
 			return
 		}
 
 		// Show schedule info
+		const scheduleRules: ScheduleRuleDTO[] = this.appConfig.schedule.rules
 		this.printInfo(`Loaded ${scheduleRules.length} schedule rules`)
 		for (const rule of scheduleRules) {
 			this.printInfo(
 				`  - ${rule.name}: ${rule.timeRange} every ${rule.intervalMinutes} minutes`
 			)
 		}
+		this.printInfo(
+			`Outside schedule rules: every ${this.appConfig.schedule.intervalHours} hours`
+		)
 
 		const startImmediately = this.appConfig.schedule.startImmediately
 
 		if (startImmediately) {
 			// Execute immediately if configured
 			this.printInfo('Configuration requires immediate execution check...')
-			this.runCrawlerCheck()
+			this.runCrawlerCheck(ruleSourceIds)
 		}
 
-		// Start interval-based scheduler (simplified version)
-		const intervalHours = this.appConfig.schedule.intervalHours
-		const intervalMs = intervalHours * 60 * 60 * 1000
+		this.scheduleNextRun(new Date())
+	}
 
-		this.schedulerInterval = setInterval(async () => {
-			await this.runCrawlerCheck()
-		}, intervalMs) as NodeJS.Timeout
+	private startCronSchedules(): void {
+		const timezone = this.appConfig.timezone
+		const sources: SourceConfigDTO[] = this.appConfig.sources
+		const scheduledSources = sources.filter((source) => source.schedule)
+		if (scheduledSources.length === 0) {
+			return
+		}
 
-		this.printInfo(`Scheduler interval set to ${intervalHours} hours`)
+		this.printInfo(`Loaded ${scheduledSources.length} source cron schedules`)
+		for (const source of scheduledSources) {
+			const expression = source.schedule!
+			this.cronTasks.push(
+				cron.schedule(
+					expression,
+					() => {
+						this.runCrawlerCheck([source.id])
+					},
+					{ timezone, name: source.id }
+				)
+			)
+			this.printInfo(`  - ${source.name}: ${expression}`)
+		}
 	}
 
-	private loadScheduleRules(): any[] {
-		try {
-			const configContent = fs.readFileSync(this.configPath, 'utf-8')
-			const config = JSON.parse(configContent)
-
-			const schedulerConfig = config.scheduler || {}
-			const rules = schedulerConfig.rules || []
-
-			// Validate and filter rules
-			const validRules: any[] = []
-			for (const rule of rules) {
-				if (this.validateScheduleRule(rule)) {
-					validRules.push(rule)
-				} else {
-					this.printInfo(
-						`⚠️  Invalid schedule rule skipped: ${rule.name || 'Unknown'}`
-					)
-				}
-			}
+	private startDigestSchedules(): void {
+		const timezone = this.appConfig.timezone
+		const digests: DigestConfigDTO[] = this.appConfig.digests
+		const digestChannels = this.container
+			.getDigestNotificationServices()
+			.map((service) => service.channel)
+		const activeDigests = digests.filter((digest) =>
+			digestChannels.includes(digest.channel)
+		)
+		if (activeDigests.length === 0) {
+			return
+		}
 
-			return validRules
-		} catch (error) {
-			this.printInfo(`❌ Failed to load schedule rules: ${error}`)
-			return []
+		this.printInfo(`Loaded ${activeDigests.length} digest schedules`)
+		for (const digest of activeDigests) {
+			this.cronTasks.push(
+				cron.schedule(
+					digest.schedule,
+					() => {
+						this.enqueueRun(() => this.flushDigest(digest.channel))
+					},
+					{ timezone, name: `digest-${digest.channel}` }
+				)
+			)
+			this.printInfo(`  - ${digest.channel}: ${digest.schedule}`)
 		}
 	}
 
-	private validateScheduleRule(rule: any): boolean {
-		const requiredFields = ['name', 'timeRange', 'intervalMinutes', 'days']
-		for (const field of requiredFields) {
-			if (!(field in rule)) {
-				return false
-			}
+	/**
+	 * Every minute, retries failed deliveries and delivers held notifications
+	 * whose quiet hours are over
+	 */
+	private startDeliveryChecks(): void {
+		if (this.container.getQuietHoursNotificationServices().length > 0) {
+			this.printInfo(
+				'Quiet hours enabled, held notifications checked every minute'
+			)
 		}
+		this.cronTasks.push(
+			cron.schedule(
+				'* * * * *',
+				() => {
+					this.enqueueRun(() => this.runDeliveryChecks())
+				},
+				{ timezone: this.appConfig.timezone, name: 'delivery-checks' }
+			)
+		)
+	}
 
-		// Validate timeRange format (HH:MM-HH:MM)
-		try {
-			const timeRange = rule.timeRange
-			if (!timeRange.includes('-')) {
-				return false
-			}
-			const [startTime, endTime] = timeRange.split('-')
-			// Basic validation - should be HH:MM format
-			if (startTime.length !== 5 || endTime.length !== 5) {
-				return false
-			}
-			if (!startTime.includes(':') || !endTime.includes(':')) {
-				return false
-			}
-		} catch {
-			return false
-		}
+	/**
+	 * Sources without a cron expression follow the scheduler rules
+	 */
+	private getRuleSourceIds(): string[] {
+		const sources: SourceConfigDTO[] = this.appConfig.sources
+		return sources
+			.filter((source) => !source.schedule)
+			.map((source) => source.id)
+	}
 
-		// Validate intervalMinutes
-		try {
-			const interval = parseInt(rule.intervalMinutes, 10)
-			if (interval <= 0) {
-				return false
-			}
-		} catch {
-			return false
+	private scheduleNextRun(from: Date): void {
+		const scheduler = this.container.getRuleScheduler()
+
+		// A long run may have overtaken the planned time
+		let nextRunAt = scheduler.getNextRunTime(from)
+		if (nextRunAt.getTime() <= Date.now()) {
+			nextRunAt = scheduler.getNextRunTime(new Date())
 		}
+		this.nextRunAt = nextRunAt
 
-		// Validate days
-		const validDays = [
-			'monday',
-			'tuesday',
-			'wednesday',
-			'thursday',
-			'friday',
-			'saturday',
-			'sunday',
-		]
-		if (!Array.isArray(rule.days)) {
-			return false
+		const activeRule = scheduler.getActiveRule(nextRunAt)
+		this.printInfo(
+			`⏰ Next run at ${this.formatTime(nextRunAt)} (${
+				activeRule ? activeRule.name : 'default interval'
+			})`
+		)
+
+		this.armTimer()
+	}
+
+	private armTimer(): void {
+		if (!this.nextRunAt) {
+			return
 		}
-		for (const day of rule.days) {
-			if (!validDays.includes(day.toLowerCase())) {
-				return false
+
+		// setTimeout cannot wait longer than about 24 days at once
+		const delay = Math.min(
+			Math.max(this.nextRunAt.getTime() - Date.now(), 0),
+			MAX_TIMER_DELAY_MS
+		)
+		this.schedulerTimer = setTimeout(async () => {
+			const plannedAt = this.nextRunAt
+			if (!plannedAt) {
+				return
+			}
+			if (plannedAt.getTime() > Date.now()) {
+				this.armTimer()
+				return
 			}
-		}
 
-		return true
+			await this.runCrawlerCheck(this.getRuleSourceIds())
+			if (this.schedulerTimer) {
+				this.scheduleNextRun(plannedAt)
+			}
+		}, delay)
+	}
+
+	private formatTime(date: Date): string {
+		return date.toLocaleString('en-US', {
+			timeZone: this.appConfig.timezone,
+			year: 'numeric',
+			month: '2-digit',
+			day: '2-digit',
+			hour: '2-digit',
+			minute: '2-digit',
+			timeZoneName: 'short',
+		})
 	}
 
 	public async start(): Promise<boolean> {
@@ -334,10 +558,15 @@ export class NewsMonitorDaemon {
 		this.printInfo('Stopping Daemon Server...')
 
 		// Stop scheduler
-		if (this.schedulerInterval) {
-			clearInterval(this.schedulerInterval)
-			this.schedulerInterval = undefined as any
+		if (this.schedulerTimer) {
+			clearTimeout(this.schedulerTimer)
+			this.schedulerTimer = undefined as any
+		}
+		this.nextRunAt = undefined as any
+		for (const task of this.cronTasks) {
+			task.stop()
 		}
+		this.cronTasks = []
 
 		// Stop health check server
 		this.stopHealthServer()